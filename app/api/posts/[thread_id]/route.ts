@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPost } from "@/lib/server/posts";
+
+/** GET /api/posts/[thread_id]: the full record for one thread. */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ thread_id: string }> }) {
+  const { thread_id } = await params;
+  if (!/^\d+$/.test(thread_id)) {
+    return NextResponse.json({ error: "thread_id must be numeric" }, { status: 400 });
+  }
+
+  const post = await getPost(Number(thread_id));
+  if (!post) return NextResponse.json({ error: `No post with thread_id ${thread_id}` }, { status: 404 });
+
+  return NextResponse.json(post);
+}
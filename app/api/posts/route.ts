@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { facetCounts, filterPosts, filtersFromSearchParams } from "@/lib/filters";
+import { loadDataset } from "@/lib/server/posts";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function positiveInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === "") return fallback;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/**
+ * GET /api/posts
+ *
+ * Accepts the same query params as the explorer URL (q, title, author, models,
+ * topics, assignments) plus page / pageSize. Facet counts cover every post
+ * that matched, not just the returned page.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const page = positiveInt(params.get("page"), 1);
+  const pageSize = positiveInt(params.get("pageSize"), DEFAULT_PAGE_SIZE);
+  if (page === null || pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `page must be a positive integer and pageSize an integer between 1 and ${MAX_PAGE_SIZE}` },
+      { status: 400 }
+    );
+  }
+
+  const { posts, index } = await loadDataset();
+  const filters = filtersFromSearchParams(params);
+  const matched = filterPosts(posts, filters, index);
+  const start = (page - 1) * pageSize;
+
+  return NextResponse.json({
+    total: matched.length,
+    page,
+    pageSize,
+    totalPages: Math.ceil(matched.length / pageSize),
+    results: matched.slice(start, start + pageSize),
+    facets: facetCounts(matched, filters.labels),
+  });
+}
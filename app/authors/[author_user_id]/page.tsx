@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import AuthorProfileView from "@/components/AuthorProfileView";
+import { authorProfile } from "@/lib/authors";
+import { loadDataset } from "@/lib/server/posts";
+import { pageTitle } from "@/lib/site";
+
+type Props = { params: Promise<{ author_user_id: string }> };
+
+async function profileFromParams(params: Props["params"]) {
+  const { author_user_id } = await params;
+  if (!/^\d+$/.test(author_user_id)) return null;
+  const { posts } = await loadDataset();
+  return authorProfile(posts, Number(author_user_id));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const profile = await profileFromParams(params);
+  if (!profile) return { title: pageTitle("Author not found") };
+  return {
+    title: pageTitle(profile.name),
+    description: `${profile.posts.length} posts and ${profile.comments.length} comments by ${profile.name}`,
+  };
+}
+
+export default async function AuthorPage({ params }: Props) {
+  const profile = await profileFromParams(params);
+  if (!profile) notFound();
+  return <AuthorProfileView profile={profile} />;
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import MediaGallery from "@/components/MediaGallery";
+import { collectMedia } from "@/lib/gallery";
+import { loadDataset } from "@/lib/server/posts";
+import { pageTitle } from "@/lib/site";
+
+export const metadata: Metadata = {
+  title: pageTitle("Attachment Gallery"),
+  description: "Every attachment, image and video shared in the collected posts",
+};
+
+export default async function GalleryPage() {
+  const { posts } = await loadDataset();
+  return <MediaGallery items={collectMedia(posts)} />;
+}
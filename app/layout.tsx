@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { SITE_DESCRIPTION, SITE_TITLE } from "@/lib/site";
+import "highlight.js/styles/github.css";
+import "katex/dist/katex.min.css";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,8 +16,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-    title: "EECS 182 Blue Team",
-    description: "Special participation Ed posts collection",
+    title: SITE_TITLE,
+    description: SITE_DESCRIPTION,
 };
 
 export default function RootLayout({
@@ -0,0 +1,44 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Suspense } from "react";
+import PostsExplorerPage from "@/components/PostsExplorerPage";
+import { safeDate } from "@/lib/posts";
+import { getPost } from "@/lib/server/posts";
+import { pageTitle } from "@/lib/site";
+
+type Props = { params: Promise<{ thread_id: string }> };
+
+async function postFromParams(params: Props["params"]) {
+  const { thread_id } = await params;
+  return /^\d+$/.test(thread_id) ? getPost(Number(thread_id)) : null;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const post = await postFromParams(params);
+  if (!post) return { title: pageTitle("Post not found") };
+
+  const title = pageTitle(post.title ?? "Untitled");
+  const description = (post.document ?? post.raw?.document ?? "").replace(/\s+/g, " ").trim().slice(0, 160);
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "article",
+      authors: post.author_name ? [post.author_name] : undefined,
+      publishedTime: safeDate(post.created_at)?.toISOString(),
+    },
+  };
+}
+
+// The explorer reads the thread id from the path and opens the post itself
+export default async function PostPage({ params }: Props) {
+  if (!(await postFromParams(params))) notFound();
+
+  return (
+    <Suspense>
+      <PostsExplorerPage />
+    </Suspense>
+  );
+}
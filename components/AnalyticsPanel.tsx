@@ -0,0 +1,295 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { CountEntry, computeAnalytics } from "@/lib/analytics";
+import { authorHref } from "@/lib/authors";
+import { LabelSource, Post, normalizeTagLabel } from "@/lib/posts";
+
+function BarList({ title, entries, variant }: { title: string; entries: CountEntry[]; variant: string }) {
+  const max = Math.max(1, ...entries.map((e) => e.count));
+  return (
+    <div className="chartCard">
+      <h3>{title}</h3>
+      {entries.length === 0 ? (
+        <p className="empty">No data</p>
+      ) : (
+        <ul className="barList">
+          {entries.map((e) => (
+            <li key={e.key}>
+              <span className="barLabel" title={normalizeTagLabel(e.key)}>
+                {normalizeTagLabel(e.key)}
+              </span>
+              <span className="barTrack">
+                <span className={`barFill ${variant}`} style={{ width: `${(e.count / max) * 100}%` }} />
+              </span>
+              <span className="barCount">{e.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** Breakdowns of whatever post set it is given (the explorer passes the filtered posts). */
+export default function AnalyticsPanel({ posts, labelSource }: { posts: Post[]; labelSource: LabelSource }) {
+  const a = useMemo(() => computeAnalytics(posts, labelSource), [posts, labelSource]);
+  const weeklyMax = Math.max(1, ...a.weekly.map((w) => w.count));
+  const { models, topics, counts, max } = a.coOccurrence;
+
+  return (
+    <div className="analytics">
+      <div className="chartGrid">
+        <BarList title="Posts per model" entries={a.byTag.models} variant="model" />
+        <BarList title="Posts per topic" entries={a.byTag.topics} variant="topic" />
+        <BarList title="Posts per assignment type" entries={a.byTag.assignments} variant="assignment" />
+
+        <div className="chartCard">
+          <h3>Top authors</h3>
+          {a.topAuthors.length === 0 ? (
+            <p className="empty">No data</p>
+          ) : (
+            <ol className="authorList">
+              {a.topAuthors.map((author) => (
+                <li key={author.id}>
+                  <span>
+                    {/^\d+$/.test(author.id) ? (
+                      <Link href={authorHref(Number(author.id))}>{author.name}</Link>
+                    ) : (
+                      author.name
+                    )}
+                  </span>
+                  <span className="barCount">{author.count}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      <div className="chartCard">
+        <h3>Submissions per week</h3>
+        {a.weekly.length === 0 ? (
+          <p className="empty">No dated posts</p>
+        ) : (
+          <div className="weekly">
+            {a.weekly.map((w) => {
+              const label = w.weekStart.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+              return (
+                <div className="weekCol" key={w.weekStart.getTime()} title={`Week of ${label}: ${w.count} posts`}>
+                  <span className="weekCount">{w.count || ""}</span>
+                  <span className="weekBar" style={{ height: `${(w.count / weeklyMax) * 100}%` }} />
+                  <span className="weekLabel">{label}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="chartCard">
+        <h3>Model × topic co-occurrence</h3>
+        {models.length === 0 || topics.length === 0 ? (
+          <p className="empty">No posts carry both model and topic tags</p>
+        ) : (
+          <div className="heatmapWrap">
+            <table className="heatmap">
+              <thead>
+                <tr>
+                  <th />
+                  {topics.map((t) => (
+                    <th key={t} className="colHead">
+                      <span>{normalizeTagLabel(t)}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {models.map((m) => (
+                  <tr key={m}>
+                    <th className="rowHead">{m}</th>
+                    {topics.map((t) => {
+                      const n = counts[m]?.[t] ?? 0;
+                      return (
+                        <td
+                          key={t}
+                          title={`${m} × ${normalizeTagLabel(t)}: ${n}`}
+                          style={{ background: n ? `rgba(102, 126, 234, ${0.12 + (0.88 * n) / max})` : undefined }}
+                          className={n / max > 0.5 ? "dark" : ""}
+                        >
+                          {n || ""}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <style jsx>{`
+        .analytics {
+          margin-top: 15px;
+          display: flex;
+          flex-direction: column;
+          gap: 15px;
+        }
+        .chartGrid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));
+          gap: 15px;
+        }
+        .analytics :global(.chartCard) {
+          background: #f8f9fa;
+          border-radius: 8px;
+          padding: 15px;
+          min-width: 0;
+        }
+        .analytics :global(.chartCard h3) {
+          font-size: 15px;
+          color: #2c3e50;
+          margin-bottom: 10px;
+        }
+        .analytics :global(.empty) {
+          color: #999;
+          font-size: 13px;
+        }
+        .analytics :global(.barList) {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 5px;
+        }
+        .analytics :global(.barList li) {
+          display: grid;
+          grid-template-columns: 140px 1fr 32px;
+          align-items: center;
+          gap: 8px;
+          font-size: 12px;
+          color: #555;
+        }
+        .analytics :global(.barLabel) {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .analytics :global(.barTrack) {
+          background: #e0e0e0;
+          border-radius: 3px;
+          height: 10px;
+          overflow: hidden;
+        }
+        .analytics :global(.barFill) {
+          display: block;
+          height: 100%;
+          background: #667eea;
+        }
+        .analytics :global(.barFill.model) {
+          background: #f39c12;
+        }
+        .analytics :global(.barFill.topic) {
+          background: #27ae60;
+        }
+        .analytics :global(.barFill.assignment) {
+          background: #2980b9;
+        }
+        .analytics :global(.barCount) {
+          text-align: right;
+          font-weight: 600;
+          color: #2c3e50;
+        }
+        .authorList {
+          margin-left: 20px;
+          font-size: 13px;
+          color: #555;
+        }
+        .authorList li {
+          padding: 2px 0;
+        }
+        .authorList li span:first-child {
+          margin-right: 8px;
+        }
+        .authorList :global(a) {
+          color: #2980b9;
+          text-decoration: none;
+        }
+        .authorList :global(a:hover) {
+          text-decoration: underline;
+        }
+        .weekly {
+          display: flex;
+          align-items: flex-end;
+          gap: 4px;
+          height: 160px;
+          overflow-x: auto;
+          padding-bottom: 4px;
+        }
+        .weekCol {
+          flex: 1 0 28px;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          justify-content: flex-end;
+          height: 100%;
+        }
+        .weekBar {
+          width: 100%;
+          background: #667eea;
+          border-radius: 3px 3px 0 0;
+          min-height: 1px;
+        }
+        .weekCount {
+          font-size: 10px;
+          color: #555;
+        }
+        .weekLabel {
+          font-size: 10px;
+          color: #888;
+          margin-top: 4px;
+          white-space: nowrap;
+        }
+        .heatmapWrap {
+          overflow-x: auto;
+        }
+        .heatmap {
+          border-collapse: collapse;
+          font-size: 12px;
+        }
+        .heatmap th,
+        .heatmap td {
+          border: 1px solid #e0e0e0;
+          padding: 4px 6px;
+          text-align: center;
+          min-width: 34px;
+        }
+        .heatmap td {
+          background: white;
+          color: #2c3e50;
+        }
+        .heatmap td.dark {
+          color: white;
+        }
+        .rowHead {
+          text-align: right;
+          white-space: nowrap;
+          color: #f39c12;
+          font-weight: 600;
+        }
+        .colHead {
+          vertical-align: bottom;
+          height: 130px;
+        }
+        .colHead span {
+          writing-mode: vertical-rl;
+          transform: rotate(180deg);
+          white-space: nowrap;
+          color: #27ae60;
+          font-weight: 600;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import CodeBlock from "@/components/CodeBlock";
+import EdContent from "@/components/EdContent";
+import { ATTACHMENT_KIND_ICONS, Attachment } from "@/lib/attachments";
+import { Notebook, parseNotebook } from "@/lib/notebook";
+
+// Longer files are cut off in the preview; the download link still has everything.
+const MAX_PREVIEW_CHARS = 100_000;
+
+type Fetched = { status: "loading" } | { status: "ready"; text: string } | { status: "error"; message: string };
+
+/** Fetches an attachment as text. Ed's file host may refuse cross-origin reads, which ends in "error". */
+function useAttachmentText(url: string): Fetched {
+  const [result, setResult] = useState<{ url: string; fetched: Fetched } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(url, { signal: controller.signal })
+      .then((res) => {
+        if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+        return res.text();
+      })
+      .then((text) => setResult({ url, fetched: { status: "ready", text } }))
+      .catch((e) => {
+        if (controller.signal.aborted) return;
+        setResult({ url, fetched: { status: "error", message: e instanceof Error ? e.message : String(e) } });
+      });
+    return () => controller.abort();
+  }, [url]);
+
+  return result?.url === url ? result.fetched : { status: "loading" };
+}
+
+function SourcePreview({ attachment }: { attachment: Attachment }) {
+  const fetched = useAttachmentText(attachment.url);
+  if (fetched.status === "loading") return <p className="attachmentNote">Loading preview…</p>;
+  if (fetched.status === "error") return <p className="attachmentNote">Preview unavailable ({fetched.message}).</p>;
+
+  const truncated = fetched.text.length > MAX_PREVIEW_CHARS;
+  return (
+    <>
+      <CodeBlock
+        code={truncated ? fetched.text.slice(0, MAX_PREVIEW_CHARS) : fetched.text}
+        language={attachment.language}
+        maxHeight={500}
+      />
+      {truncated ? <p className="attachmentNote">Preview truncated; download the file to see all of it.</p> : null}
+    </>
+  );
+}
+
+function NotebookPreview({ attachment }: { attachment: Attachment }) {
+  const fetched = useAttachmentText(attachment.url);
+  const notebook = useMemo((): Notebook | Error | null => {
+    if (fetched.status !== "ready") return null;
+    try {
+      return parseNotebook(fetched.text);
+    } catch (e) {
+      return e instanceof Error ? e : new Error(String(e));
+    }
+  }, [fetched]);
+
+  if (fetched.status === "loading") return <p className="attachmentNote">Loading notebook…</p>;
+  if (fetched.status === "error") return <p className="attachmentNote">Preview unavailable ({fetched.message}).</p>;
+  if (!notebook || notebook instanceof Error) {
+    return <p className="attachmentNote">Could not read notebook{notebook ? ` (${notebook.message})` : ""}.</p>;
+  }
+
+  return (
+    <div className="notebook">
+      {notebook.cells.map((cell, i) => (
+        <div key={i} className={`nbCell ${cell.type}`}>
+          {cell.type === "code" ? (
+            <>
+              <div className="nbPrompt">In [{cell.executionCount ?? " "}]:</div>
+              <CodeBlock code={cell.source} language={notebook.language} />
+              {cell.outputs.map((out, j) =>
+                out.type === "image" ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img key={j} className="nbImage" src={out.src} alt={`Output of cell ${i + 1}`} />
+                ) : (
+                  <pre key={j} className={`nbOutput ${out.error ? "error" : ""}`}>
+                    {out.text}
+                  </pre>
+                )
+              )}
+            </>
+          ) : cell.type === "markdown" ? (
+            cell.source.trim() ? <EdContent markdown={cell.source} /> : null
+          ) : (
+            <div className="nbText">{cell.source}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** One Ed `<file>` attachment, shown according to its type. */
+export default function AttachmentView({ attachment }: { attachment: Attachment }) {
+  const { url, name, kind, typeLabel } = attachment;
+
+  let preview: ReactNode = null;
+  switch (kind) {
+    case "pdf":
+      preview = <iframe src={url} title={name} />;
+      break;
+    case "source":
+      preview = <SourcePreview attachment={attachment} />;
+      break;
+    case "notebook":
+      preview = <NotebookPreview attachment={attachment} />;
+      break;
+    case "image":
+      // eslint-disable-next-line @next/next/no-img-element
+      preview = <img src={url} alt={name} />;
+      break;
+    case "video":
+      preview = <video src={url} controls />;
+      break;
+    case "audio":
+      preview = <audio src={url} controls />;
+      break;
+  }
+
+  return (
+    <div className={`attachment ${kind}`}>
+      <div className="attachmentHeader">
+        <span className="attachmentIcon" aria-hidden="true">
+          {ATTACHMENT_KIND_ICONS[kind]}
+        </span>
+        <span className="attachmentName">
+          <strong>{name}</strong>
+          <span className="attachmentType">{typeLabel}</span>
+        </span>
+        <a className="attachmentLink" href={url} target="_blank" rel="noreferrer" download={preview ? undefined : name}>
+          {preview ? "Open in new tab →" : "Download ↓"}
+        </a>
+      </div>
+      {preview}
+
+      <style jsx>{`
+        .attachment {
+          margin: 20px 0;
+          padding: 15px;
+          background: #f8f9fa;
+          border-radius: 8px;
+          border-left: 4px solid #95a5a6;
+        }
+        .attachment.pdf {
+          background: #fff5e6;
+          border-left-color: #f39c12;
+        }
+        .attachment.source,
+        .attachment.notebook {
+          background: #f0f2fd;
+          border-left-color: #667eea;
+        }
+        .attachmentHeader {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+        .attachmentIcon {
+          font-size: 24px;
+        }
+        .attachmentName {
+          display: flex;
+          flex-direction: column;
+          flex: 1;
+          min-width: 0;
+          color: #2c3e50;
+          word-break: break-all;
+        }
+        .attachmentType {
+          color: #7f8c8d;
+          font-size: 12px;
+        }
+        .attachmentLink {
+          flex-shrink: 0;
+          text-decoration: none;
+          font-weight: 500;
+          font-size: 14px;
+        }
+        .attachmentLink:hover {
+          text-decoration: underline;
+        }
+        .attachment :global(.attachmentNote) {
+          color: #888;
+          font-size: 13px;
+          margin: 10px 0 0;
+        }
+        .attachment :global(.codeBlock) {
+          margin: 10px 0 0;
+        }
+        .attachment :global(img),
+        .attachment :global(video) {
+          margin: 10px 0 0;
+        }
+        .attachment :global(audio) {
+          display: block;
+          width: 100%;
+          margin-top: 10px;
+        }
+        .attachment :global(.notebook) {
+          max-height: 700px;
+          overflow: auto;
+          margin-top: 10px;
+          background: white;
+          border-radius: 6px;
+          padding: 10px;
+        }
+        .attachment :global(.nbCell) {
+          margin-bottom: 12px;
+        }
+        .attachment :global(.nbCell .codeBlock) {
+          margin: 0;
+        }
+        .attachment :global(.nbPrompt) {
+          color: #667eea;
+          font-family: var(--font-geist-mono), monospace;
+          font-size: 12px;
+          margin-bottom: 2px;
+        }
+        .attachment :global(.nbText) {
+          white-space: pre-wrap;
+          line-height: 1.6;
+        }
+        .attachment :global(.nbOutput) {
+          background: white;
+          border-left: 3px solid #ddd;
+          margin: 6px 0 0;
+          max-height: 300px;
+          overflow: auto;
+        }
+        .attachment :global(.nbOutput.error) {
+          background: #fdecea;
+          border-left-color: #e74c3c;
+        }
+        .attachment :global(.nbImage) {
+          box-shadow: none;
+          margin: 6px 0 0;
+        }
+      `}</style>
+    </div>
+  );
+}
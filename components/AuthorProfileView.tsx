@@ -0,0 +1,431 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { AuthorProfile, authorEngagement, authorTimeline } from "@/lib/authors";
+import { facetCounts } from "@/lib/filters";
+import { LabelSource, TAG_KINDS, TagKind, normalizeTagLabel, postTags, safeDate } from "@/lib/posts";
+
+const TAG_KIND_LABELS: Record<TagKind, string> = { models: "Models", topics: "Topics", assignments: "Assignment types" };
+
+function formatDate(input?: string | number) {
+  return safeDate(input)?.toLocaleDateString() ?? "Unknown date";
+}
+
+/** One author's posts, comments, tags, weekly activity and engagement totals. */
+export default function AuthorProfileView({ profile }: { profile: AuthorProfile }) {
+  const [labelSource, setLabelSource] = useState<LabelSource>("llm");
+  const engagement = useMemo(() => authorEngagement(profile), [profile]);
+  const timeline = useMemo(() => authorTimeline(profile), [profile]);
+  const tags = useMemo(() => facetCounts(profile.posts, labelSource), [profile, labelSource]);
+  const weeklyMax = Math.max(1, ...timeline.map((w) => w.posts + w.comments));
+
+  const stats: [string, number][] = [
+    ["Posts", profile.posts.length],
+    ["Comments & answers", profile.comments.length],
+    ["Views", engagement.views],
+    ["Votes on posts", engagement.votes],
+    ["Replies received", engagement.replies],
+    ["Stars", engagement.stars],
+    ["Votes on comments", engagement.commentVotes],
+    ["Endorsed answers", engagement.endorsedAnswers],
+  ];
+
+  return (
+    <div className="page">
+      <div className="container">
+        <div className="card">
+          <Link href="/" className="backLink">
+            ← Posts Explorer
+          </Link>
+          <h1>👤 {profile.name}</h1>
+          <p className="muted">
+            User #{profile.userId}
+            {profile.role ? ` · ${profile.role}` : ""}
+            {profile.otherNames.length > 0 ? ` · also posted as ${profile.otherNames.join(", ")}` : ""}
+          </p>
+          <dl className="stats">
+            {stats.map(([label, value]) => (
+              <div className="stat" key={label}>
+                <dt>{label}</dt>
+                <dd>{value.toLocaleString()}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        <div className="columns">
+          <div className="card">
+            <div className="cardHeader">
+              <h2>Tags on their posts</h2>
+              <select
+                aria-label="Label source"
+                value={labelSource}
+                onChange={(e) => setLabelSource(e.target.value as LabelSource)}
+              >
+                <option value="llm">LLM labels</option>
+                <option value="heuristic">Heuristic labels</option>
+              </select>
+            </div>
+            {TAG_KINDS.map((kind) => {
+              const entries = Object.entries(tags[kind]).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+              const max = Math.max(1, ...entries.map(([, n]) => n));
+              return (
+                <div key={kind} className="tagGroup">
+                  <h3>{TAG_KIND_LABELS[kind]}</h3>
+                  {entries.length === 0 ? (
+                    <p className="muted">None</p>
+                  ) : (
+                    <ul className="barList">
+                      {entries.map(([tag, n]) => (
+                        <li key={tag}>
+                          <span className="barLabel">{kind === "models" ? tag : normalizeTagLabel(tag)}</span>
+                          <span className="barTrack">
+                            <span className={`barFill ${kind}`} style={{ width: `${(n / max) * 100}%` }} />
+                          </span>
+                          <span className="barCount">{n}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="card">
+            <h2>Activity per week</h2>
+            {timeline.length === 0 ? (
+              <p className="muted">No dated activity</p>
+            ) : (
+              <>
+                <div className="weekly">
+                  {timeline.map((w) => {
+                    const label = w.weekStart.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+                    return (
+                      <div
+                        className="weekCol"
+                        key={w.weekStart.getTime()}
+                        title={`Week of ${label}: ${w.posts} posts, ${w.comments} comments`}
+                      >
+                        <span className="weekCount">{w.posts + w.comments || ""}</span>
+                        <span className="weekBar comments" style={{ height: `${(w.comments / weeklyMax) * 100}%` }} />
+                        <span className="weekBar posts" style={{ height: `${(w.posts / weeklyMax) * 100}%` }} />
+                        <span className="weekLabel">{label}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="legend">
+                  <span className="swatch posts" /> posts <span className="swatch comments" /> comments
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="card">
+          <h2>Posts ({profile.posts.length})</h2>
+          {profile.posts.length === 0 ? (
+            <p className="muted">No posts in this dataset.</p>
+          ) : (
+            <ul className="itemList">
+              {profile.posts.map((post, i) => (
+                <li key={post.thread_id ?? `post-${i}`}>
+                  {post.thread_id != null ? (
+                    <Link href={`/posts/${post.thread_id}`} className="itemTitle">
+                      {post.title ?? "Untitled"}
+                    </Link>
+                  ) : (
+                    <span className="itemTitle">{post.title ?? "Untitled"}</span>
+                  )}
+                  <div className="itemMeta">
+                    📅 {formatDate(post.created_at)} · 👁 {post.raw?.view_count ?? 0} · ▲ {post.raw?.vote_count ?? 0} · 💬{" "}
+                    {post.raw?.reply_count ?? 0}
+                  </div>
+                  <div className="itemTags">
+                    {postTags(post, "models", labelSource).map((m) => (
+                      <span key={`m-${m}`} className="tag models">
+                        {m}
+                      </span>
+                    ))}
+                    {postTags(post, "topics", labelSource).map((t) => (
+                      <span key={`t-${t}`} className="tag topics">
+                        {normalizeTagLabel(t)}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="card">
+          <h2>Comments &amp; answers ({profile.comments.length})</h2>
+          {profile.comments.length === 0 ? (
+            <p className="muted">No comments in this dataset.</p>
+          ) : (
+            <ul className="itemList">
+              {profile.comments.map((c) => (
+                <li key={c.id}>
+                  <div className="itemMeta">
+                    {c.type === "answer" ? "Answer" : "Comment"}
+                    {c.endorsed ? " ✅ endorsed" : ""} on{" "}
+                    {c.threadId != null ? (
+                      <Link href={`/posts/${c.threadId}`} className="threadLink">
+                        {c.threadTitle}
+                      </Link>
+                    ) : (
+                      c.threadTitle
+                    )}{" "}
+                    · 📅 {formatDate(c.createdAt)} · ▲ {c.voteCount}
+                  </div>
+                  <p className="excerpt">{c.excerpt || <em>No text</em>}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <style jsx>{`
+        * {
+          box-sizing: border-box;
+        }
+        .page {
+          font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          min-height: 100vh;
+          padding: 20px;
+        }
+        .container {
+          max-width: 1400px;
+          margin: 0 auto;
+        }
+        .card {
+          background: white;
+          padding: 25px 30px;
+          border-radius: 12px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          margin-bottom: 20px;
+          min-width: 0;
+        }
+        .card :global(.backLink) {
+          color: #667eea;
+          text-decoration: none;
+          font-size: 14px;
+          font-weight: 600;
+        }
+        h1 {
+          color: #2c3e50;
+          margin: 10px 0 4px;
+        }
+        h2 {
+          color: #2c3e50;
+          font-size: 18px;
+          margin: 0 0 12px;
+        }
+        h3 {
+          color: #7f8c8d;
+          font-size: 13px;
+          text-transform: uppercase;
+          margin: 12px 0 6px;
+        }
+        .muted {
+          color: #7f8c8d;
+          font-size: 14px;
+        }
+        .stats {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(150px, 1fr));
+          gap: 10px;
+          margin: 20px 0 0;
+        }
+        .stat {
+          background: #f8f9fa;
+          border-radius: 8px;
+          padding: 10px 12px;
+        }
+        .stat dt {
+          color: #7f8c8d;
+          font-size: 12px;
+        }
+        .stat dd {
+          margin: 2px 0 0;
+          font-size: 22px;
+          font-weight: 700;
+          color: #667eea;
+        }
+        .columns {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(400px, 1fr));
+          gap: 0 20px;
+        }
+        .cardHeader {
+          display: flex;
+          justify-content: space-between;
+          align-items: baseline;
+          gap: 10px;
+        }
+        .cardHeader select {
+          padding: 4px 8px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 13px;
+          background: white;
+        }
+        .barList {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+        .barList li {
+          display: grid;
+          grid-template-columns: minmax(0, 180px) 1fr 30px;
+          align-items: center;
+          gap: 8px;
+          font-size: 13px;
+          padding: 2px 0;
+        }
+        .barLabel {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+          color: #2c3e50;
+        }
+        .barTrack {
+          height: 10px;
+          background: #ecf0f1;
+          border-radius: 5px;
+          overflow: hidden;
+        }
+        .barFill {
+          display: block;
+          height: 100%;
+          background: #2980b9;
+        }
+        .barFill.models {
+          background: #f39c12;
+        }
+        .barFill.topics {
+          background: #27ae60;
+        }
+        .barCount {
+          text-align: right;
+          color: #7f8c8d;
+        }
+        .weekly {
+          display: flex;
+          align-items: flex-end;
+          gap: 6px;
+          height: 180px;
+          overflow-x: auto;
+          padding-bottom: 4px;
+        }
+        .weekCol {
+          flex: 1 0 36px;
+          display: flex;
+          flex-direction: column;
+          justify-content: flex-end;
+          align-items: center;
+          height: 100%;
+        }
+        .weekCount {
+          font-size: 11px;
+          color: #7f8c8d;
+        }
+        .weekBar {
+          width: 100%;
+          max-width: 28px;
+        }
+        .weekBar.posts {
+          background: #667eea;
+          border-radius: 0 0 3px 3px;
+        }
+        .weekBar.comments {
+          background: #a3b1f5;
+          border-radius: 3px 3px 0 0;
+        }
+        .weekLabel {
+          font-size: 10px;
+          color: #95a5a6;
+          margin-top: 4px;
+          white-space: nowrap;
+        }
+        .legend {
+          font-size: 12px;
+          color: #7f8c8d;
+          margin-top: 8px;
+        }
+        .swatch {
+          display: inline-block;
+          width: 10px;
+          height: 10px;
+          border-radius: 2px;
+          margin: 0 2px 0 8px;
+          vertical-align: middle;
+        }
+        .swatch.posts {
+          background: #667eea;
+        }
+        .swatch.comments {
+          background: #a3b1f5;
+        }
+        .itemList {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+        .itemList li {
+          padding: 10px 0;
+          border-bottom: 1px solid #f0f0f0;
+        }
+        .itemList :global(.itemTitle) {
+          font-weight: 600;
+          color: #2980b9;
+          text-decoration: none;
+        }
+        .itemList :global(.itemTitle:hover),
+        .itemList :global(.threadLink:hover) {
+          text-decoration: underline;
+        }
+        .itemList :global(.threadLink) {
+          color: #2980b9;
+          text-decoration: none;
+        }
+        .itemMeta {
+          color: #95a5a6;
+          font-size: 12px;
+          margin-top: 2px;
+        }
+        .itemTags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin-top: 6px;
+        }
+        .tag {
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 11px;
+          font-weight: 500;
+        }
+        .tag.models {
+          background: #fff5e6;
+          color: #f39c12;
+        }
+        .tag.topics {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+        .excerpt {
+          margin: 4px 0 0;
+          color: #555;
+          font-size: 14px;
+          line-height: 1.5;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { highlightCode, languageName } from "@/lib/highlight";
+
+/**
+ * Highlighted, line-numbered code with a copy button. `language` may be a
+ * name or alias; without one (or with an unknown one) it is auto-detected.
+ */
+export default function CodeBlock({
+  code,
+  language,
+  maxHeight,
+}: {
+  code: string;
+  language?: string | null;
+  maxHeight?: number;
+}) {
+  const text = code.replace(/\n$/, "");
+  const highlighted = useMemo(() => highlightCode(text, language), [text, language]);
+  const lineCount = text.split("\n").length;
+  const [copied, setCopied] = useState<"ok" | "failed" | null>(null);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = setTimeout(() => setCopied(null), 1500);
+    return () => clearTimeout(t);
+  }, [copied]);
+
+  function copy() {
+    // The clipboard API is missing outside secure contexts (plain http)
+    if (!navigator.clipboard) {
+      setCopied("failed");
+      return;
+    }
+    navigator.clipboard
+      .writeText(text)
+      .then(() => setCopied("ok"))
+      .catch(() => setCopied("failed"));
+  }
+
+  return (
+    <div className="codeBlock">
+      <div className="codeToolbar">
+        <span className="codeLanguage">{highlighted.language ? languageName(highlighted.language) : "Text"}</span>
+        <button type="button" className="copyBtn" onClick={copy} aria-live="polite">
+          {copied === "ok" ? "✓ Copied" : copied === "failed" ? "Copy failed" : "📋 Copy"}
+        </button>
+      </div>
+      <div className="codeScroll" style={maxHeight ? { maxHeight } : undefined}>
+        <pre className="lineNumbers" aria-hidden="true">
+          {Array.from({ length: lineCount }, (_, i) => i + 1).join("\n")}
+        </pre>
+        <pre className="codeLines">
+          <code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted.html }} />
+        </pre>
+      </div>
+
+      <style jsx>{`
+        .codeBlock {
+          margin-bottom: 15px;
+          border: 1px solid #e0e0e0;
+          border-radius: 6px;
+          overflow: hidden;
+          background: #f8f9fb;
+        }
+        .codeToolbar {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 4px 10px;
+          background: #eef0f4;
+          border-bottom: 1px solid #e0e0e0;
+          font-size: 12px;
+          color: #7f8c8d;
+        }
+        .copyBtn {
+          border: none;
+          background: none;
+          color: #667eea;
+          font-size: 12px;
+          font-weight: 600;
+          cursor: pointer;
+          padding: 2px 4px;
+        }
+        .copyBtn:hover {
+          text-decoration: underline;
+        }
+        .codeScroll {
+          display: flex;
+          overflow: auto;
+        }
+        .codeBlock pre {
+          font-family: var(--font-geist-mono), monospace;
+          font-size: 13px;
+          line-height: 1.5;
+          margin: 0;
+          padding: 10px 12px;
+          border-radius: 0;
+          background: none;
+          white-space: pre;
+          overflow: visible;
+        }
+        .codeBlock .lineNumbers {
+          flex-shrink: 0;
+          text-align: right;
+          color: #aab;
+          user-select: none;
+          border-right: 1px solid #e0e0e0;
+          position: sticky;
+          left: 0;
+          background: #f8f9fb;
+        }
+        .codeBlock .codeLines {
+          flex: 1;
+          overflow: visible;
+        }
+        .codeLines :global(code.hljs) {
+          background: none;
+          display: inline;
+          padding: 0;
+          overflow: visible;
+          font-size: inherit;
+          border-radius: 0;
+        }
+      `}</style>
+    </div>
+  );
+}
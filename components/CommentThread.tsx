@@ -0,0 +1,204 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import EdContent from "@/components/EdContent";
+import { authorHref } from "@/lib/authors";
+import { CommentNode, Post, buildCommentTree, countComments, safeDate } from "@/lib/posts";
+
+type CommentItemProps = {
+  node: CommentNode;
+  postAuthorId?: number;
+  userNames: Map<number, string>;
+};
+
+function commentAuthor(node: CommentNode, userNames: Map<number, string>) {
+  if (node.is_anonymous) return "Anonymous";
+  if (node.user_id == null) return "Unknown user";
+  return userNames.get(node.user_id) ?? `User #${node.user_id}`;
+}
+
+function CommentItem({ node, postAuthorId, userNames }: CommentItemProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const d = safeDate(node.created_at);
+  const replyCount = node.replies.length;
+
+  return (
+    <div className={`comment ${node.type === "answer" ? "answer" : ""} ${node.is_endorsed ? "endorsed" : ""}`}>
+      <div className="commentMeta">
+        <button
+          type="button"
+          className="collapseBtn"
+          onClick={() => setCollapsed((c) => !c)}
+          aria-expanded={!collapsed}
+          aria-label={collapsed ? "Expand comment" : "Collapse comment"}
+        >
+          {collapsed ? "▸" : "▾"}
+        </button>
+        <span className="commentAuthor">
+          👤{" "}
+          {node.user_id != null && !node.is_anonymous ? (
+            <Link href={authorHref(node.user_id)}>{commentAuthor(node, userNames)}</Link>
+          ) : (
+            commentAuthor(node, userNames)
+          )}
+        </span>
+        {node.user_id != null && node.user_id === postAuthorId ? <span className="badge op">Author</span> : null}
+        {node.type === "answer" ? <span className="badge answerBadge">Answer</span> : null}
+        {node.is_endorsed ? <span className="badge endorsedBadge">✔ Endorsed</span> : null}
+        {node.is_private ? <span className="badge">Private</span> : null}
+        <span className="commentDate">📅 {d ? d.toLocaleString() : "Unknown date"}</span>
+        {node.vote_count ? <span className="commentVotes">▲ {node.vote_count}</span> : null}
+        {collapsed && replyCount > 0 ? (
+          <span className="commentDate">
+            ({replyCount} {replyCount === 1 ? "reply" : "replies"} hidden)
+          </span>
+        ) : null}
+      </div>
+
+      {collapsed ? null : (
+        <>
+          <div className="commentBody">
+            {node.deleted_at ? (
+              <p className="deleted">[deleted]</p>
+            ) : (
+              <EdContent xml={node.content} fallbackText={node.document} />
+            )}
+          </div>
+          {replyCount > 0 ? (
+            <div className="replies">
+              {node.replies.map((child) => (
+                <CommentItem key={child.id} node={child} postAuthorId={postAuthorId} userNames={userNames} />
+              ))}
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Answers and comments of a post as a nested, collapsible thread. */
+export default function CommentThread({ post, userNames }: { post: Post; userNames: Map<number, string> }) {
+  const [open, setOpen] = useState(true);
+  const tree = useMemo(() => buildCommentTree(post), [post]);
+  const total = useMemo(() => countComments(post), [post]);
+
+  if (total === 0) return null;
+
+  return (
+    <section className="commentThread">
+      <button type="button" className="threadToggle" onClick={() => setOpen((o) => !o)} aria-expanded={open}>
+        {open ? "▾" : "▸"} 💬 {total} {total === 1 ? "Comment" : "Comments"}
+      </button>
+
+      {open ? (
+        <div className="threadList">
+          {tree.map((node) => (
+            <CommentItem key={node.id} node={node} postAuthorId={post.author_user_id} userNames={userNames} />
+          ))}
+        </div>
+      ) : null}
+
+      <style jsx>{`
+        .commentThread {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 2px solid #f0f0f0;
+        }
+        .threadToggle {
+          background: none;
+          border: none;
+          font-size: 18px;
+          font-weight: 600;
+          color: #2c3e50;
+          cursor: pointer;
+          padding: 0;
+          margin-bottom: 15px;
+        }
+        .commentThread :global(.comment) {
+          border-left: 3px solid #e0e0e0;
+          padding: 8px 0 4px 14px;
+          margin-bottom: 12px;
+        }
+        .commentThread :global(.comment.answer) {
+          border-left-color: #667eea;
+        }
+        .commentThread :global(.comment.endorsed) {
+          border-left-color: #27ae60;
+        }
+        .commentThread :global(.replies) {
+          margin-top: 8px;
+        }
+        .commentThread :global(.commentMeta) {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          font-size: 13px;
+          margin-bottom: 4px;
+        }
+        .commentThread :global(.collapseBtn) {
+          background: none;
+          border: none;
+          cursor: pointer;
+          color: #7f8c8d;
+          padding: 0 2px;
+          font-size: 13px;
+        }
+        .commentThread :global(.commentAuthor) {
+          color: #2c3e50;
+          font-weight: 600;
+        }
+        .commentThread :global(.commentAuthor a) {
+          color: inherit;
+          text-decoration: none;
+        }
+        .commentThread :global(.commentAuthor a:hover) {
+          color: #667eea;
+          text-decoration: underline;
+        }
+        .commentThread :global(.commentDate) {
+          color: #95a5a6;
+          font-size: 12px;
+        }
+        .commentThread :global(.commentVotes) {
+          color: #667eea;
+          font-size: 12px;
+          font-weight: 600;
+        }
+        .commentThread :global(.badge) {
+          background: #f0f0f0;
+          color: #555;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 11px;
+          font-weight: 600;
+        }
+        .commentThread :global(.badge.op) {
+          background: #fff5e6;
+          color: #f39c12;
+        }
+        .commentThread :global(.badge.answerBadge) {
+          background: #e8f4f8;
+          color: #2980b9;
+        }
+        .commentThread :global(.badge.endorsedBadge) {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+        .commentThread :global(.commentBody) {
+          font-size: 14px;
+          line-height: 1.7;
+        }
+        .commentThread :global(.commentBody p) {
+          margin-bottom: 8px;
+        }
+        .commentThread :global(.deleted) {
+          color: #999;
+          font-style: italic;
+        }
+      `}</style>
+    </section>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { MergeSummary } from "@/lib/merge";
+
+/** File picker and drop zone for one or more JSON/JSONL snapshots, plus the result of the last merge. */
+export default function DatasetUpload({
+  onFiles,
+  summary,
+  onDismissSummary,
+}: {
+  onFiles: (files: File[]) => void;
+  summary: MergeSummary | null;
+  onDismissSummary: () => void;
+}) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  function pick(list: FileList | null) {
+    const files = Array.from(list ?? []);
+    if (files.length > 0) onFiles(files);
+  }
+
+  return (
+    <div className="datasetUpload">
+      <div
+        className={`dropZone ${dragging ? "dragging" : ""}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          pick(e.dataTransfer.files);
+        }}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".jsonl,.json"
+          multiple
+          style={{ display: "none" }}
+          onChange={(e) => {
+            pick(e.target.files);
+            e.target.value = ""; // allow picking the same files again
+          }}
+        />
+        <button type="button" className="uploadBtn" onClick={() => inputRef.current?.click()}>
+          📁 Upload JSONL Files
+        </button>
+        <span className="hint">or drop files here. Records are merged by thread_id, newest copy wins.</span>
+      </div>
+
+      {summary ? (
+        <div className="mergeSummary">
+          <span>
+            🔀 Merged {summary.files.length === 1 ? <code>{summary.files[0]}</code> : `${summary.files.length} files`}:{" "}
+            <strong>{summary.added}</strong> added · <strong>{summary.updated}</strong> updated ·{" "}
+            <strong>{summary.unchanged}</strong> unchanged
+          </span>
+          <button type="button" onClick={onDismissSummary} aria-label="Dismiss merge summary">
+            ×
+          </button>
+        </div>
+      ) : null}
+
+      <style jsx>{`
+        .datasetUpload {
+          margin-top: 15px;
+        }
+        .dropZone {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 12px;
+          padding: 12px 15px;
+          border: 2px dashed #c5cbe9;
+          border-radius: 8px;
+          background: #f8f9fa;
+          transition: all 0.2s;
+        }
+        .dropZone.dragging {
+          border-color: #667eea;
+          background: #eef0fc;
+        }
+        .uploadBtn {
+          background: #667eea;
+          color: white;
+          padding: 8px 16px;
+          border: none;
+          border-radius: 6px;
+          cursor: pointer;
+          font-size: 14px;
+          font-weight: 600;
+        }
+        .uploadBtn:hover {
+          background: #5568d3;
+        }
+        .hint {
+          color: #888;
+          font-size: 13px;
+        }
+        .mergeSummary {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 10px;
+          margin-top: 10px;
+          padding: 10px 15px;
+          border-radius: 8px;
+          background: #eef0fc;
+          border-left: 4px solid #667eea;
+          font-size: 14px;
+          color: #2c3e50;
+        }
+        .mergeSummary button {
+          background: rgba(0, 0, 0, 0.06);
+          border: none;
+          border-radius: 6px;
+          padding: 4px 10px;
+          cursor: pointer;
+          font-size: 13px;
+        }
+        code {
+          font-family: var(--font-geist-mono), monospace;
+          font-size: 12px;
+        }
+      `}</style>
+    </div>
+  );
+}
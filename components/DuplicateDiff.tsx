@@ -0,0 +1,141 @@
+"use client";
+
+import { useMemo } from "react";
+import { DiffRow, WordSegment, sideBySideDiff } from "@/lib/diff";
+import { parseEdDocument } from "@/lib/edDocument";
+import { Post, safeDate } from "@/lib/posts";
+import { fileNames } from "@/lib/search";
+
+function postText(post: Post) {
+  return post.document ?? post.raw?.document ?? "";
+}
+
+function Segments({ segments }: { segments: WordSegment[] }) {
+  return (
+    <>
+      {segments.map((seg, i) => (seg.changed ? <mark key={i}>{seg.text}</mark> : seg.text))}
+    </>
+  );
+}
+
+function Cell({ row, side }: { row: DiffRow; side: "left" | "right" }) {
+  if (row.type === "changed") return <Segments segments={row[side]} />;
+  return <>{row[side] ?? ""}</>;
+}
+
+function PostColumnHeader({ post }: { post: Post }) {
+  const files = fileNames(parseEdDocument(post.raw?.content ?? ""));
+  return (
+    <th>
+      <div className="diffTitle">{post.title ?? "Untitled"}</div>
+      <div className="diffMeta">
+        👤 {post.author_name ?? "Unknown Author"} · 📅 {safeDate(post.created_at)?.toLocaleDateString() ?? "Unknown date"}
+        {post.thread_id != null ? ` · #${post.thread_id}` : ""}
+      </div>
+      {files.length > 0 ? <div className="diffMeta">📎 {files.join(", ")}</div> : null}
+    </th>
+  );
+}
+
+/** Two posts' text side by side, with changed lines and words highlighted. */
+export default function DuplicateDiff({ a, b }: { a: Post; b: Post }) {
+  const rows = useMemo(() => sideBySideDiff(postText(a), postText(b)), [a, b]);
+  const same = rows.filter((r) => r.type === "same").length;
+
+  return (
+    <div className="duplicateDiff">
+      <p className="diffSummary">
+        {same} of {rows.length} lines identical
+      </p>
+      <div className="diffScroll">
+        <table>
+          <thead>
+            <tr>
+              <PostColumnHeader post={a} />
+              <PostColumnHeader post={b} />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i} className={row.type}>
+                <td>
+                  <Cell row={row} side="left" />
+                </td>
+                <td>
+                  <Cell row={row} side="right" />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <style jsx>{`
+        .duplicateDiff {
+          margin-top: 10px;
+        }
+        .diffSummary {
+          color: #7f8c8d;
+          font-size: 12px;
+          margin: 0 0 6px;
+        }
+        .diffScroll {
+          max-height: 500px;
+          overflow: auto;
+          border: 1px solid #e0e0e0;
+          border-radius: 6px;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          table-layout: fixed;
+          font-size: 13px;
+          line-height: 1.5;
+        }
+        thead :global(th) {
+          position: sticky;
+          top: 0;
+          background: #f8f9fa;
+          text-align: left;
+          vertical-align: top;
+          padding: 8px 10px;
+          border-bottom: 1px solid #e0e0e0;
+          font-weight: normal;
+        }
+        thead :global(.diffTitle) {
+          font-weight: 600;
+          color: #2c3e50;
+        }
+        thead :global(.diffMeta) {
+          color: #95a5a6;
+          font-size: 12px;
+          word-break: break-word;
+        }
+        td {
+          vertical-align: top;
+          padding: 4px 10px;
+          white-space: pre-wrap;
+          word-break: break-word;
+          border-bottom: 1px solid #f4f4f4;
+        }
+        td + td,
+        thead :global(th + th) {
+          border-left: 1px solid #e0e0e0;
+        }
+        tr.removed td:first-child,
+        tr.changed td:first-child {
+          background: #fdecea;
+        }
+        tr.added td:last-child,
+        tr.changed td:last-child {
+          background: #e8f8e8;
+        }
+        td :global(mark) {
+          background: rgba(241, 196, 15, 0.45);
+          color: inherit;
+          border-radius: 2px;
+        }
+      `}</style>
+    </div>
+  );
+}
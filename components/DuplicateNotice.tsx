@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import DuplicateDiff from "@/components/DuplicateDiff";
+import { DuplicateCluster } from "@/lib/duplicates";
+import { Post } from "@/lib/posts";
+
+/** Warning in the post modal listing the posts this one nearly duplicates. */
+export default function DuplicateNotice({
+  post,
+  cluster,
+  onOpenPost,
+}: {
+  post: Post;
+  cluster: DuplicateCluster;
+  onOpenPost: (post: Post) => void;
+}) {
+  const [comparing, setComparing] = useState<Post | null>(null);
+  const matches = cluster.pairs
+    .filter((pair) => pair.a === post || pair.b === post)
+    .map((pair) => ({ other: pair.a === post ? pair.b : pair.a, similarity: pair.similarity }));
+  // Posts in the same cluster that only match this one through a third post
+  const indirect = cluster.posts.length - 1 - matches.length;
+
+  return (
+    <div className="duplicateNotice" role="note">
+      <strong>⚠️ Suspected duplicate</strong>
+      <ul>
+        {matches.map(({ other, similarity }, i) => (
+          <li key={other.thread_id ?? `match-${i}`}>
+            {Math.round(similarity * 100)}% similar to{" "}
+            <button type="button" className="linkBtn" onClick={() => onOpenPost(other)}>
+              {other.title ?? "Untitled"}
+            </button>{" "}
+            by {other.author_name ?? "Unknown Author"} ·{" "}
+            <button
+              type="button"
+              className="linkBtn"
+              aria-expanded={comparing === other}
+              onClick={() => setComparing(comparing === other ? null : other)}
+            >
+              {comparing === other ? "hide comparison" : "compare"}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {indirect > 0 ? (
+        <p className="indirect">
+          Grouped with {indirect} more post{indirect === 1 ? "" : "s"} through the posts above.
+        </p>
+      ) : null}
+      {comparing ? <DuplicateDiff a={post} b={comparing} /> : null}
+
+      <style jsx>{`
+        .duplicateNotice {
+          margin-bottom: 20px;
+          padding: 12px 15px;
+          background: #fff5e6;
+          border-left: 4px solid #f39c12;
+          border-radius: 6px;
+          font-size: 14px;
+          line-height: 1.6;
+        }
+        ul {
+          margin: 4px 0 0 18px;
+        }
+        .indirect {
+          color: #7f8c8d;
+          font-size: 12px;
+          margin: 4px 0 0;
+        }
+        .linkBtn {
+          background: none;
+          border: none;
+          padding: 0;
+          color: #2980b9;
+          cursor: pointer;
+          font: inherit;
+        }
+        .linkBtn:hover {
+          text-decoration: underline;
+        }
+      `}</style>
+    </div>
+  );
+}
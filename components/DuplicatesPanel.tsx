@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import DuplicateDiff from "@/components/DuplicateDiff";
+import { DUPLICATE_THRESHOLD, DuplicatePair, DuplicateReport } from "@/lib/duplicates";
+import { Post, safeDate } from "@/lib/posts";
+
+function pairKey(pair: DuplicatePair) {
+  return `${pair.a.thread_id ?? pair.a.title}-${pair.b.thread_id ?? pair.b.title}`;
+}
+
+/** Clusters of near-identical posts, each pair with its similarity and a side-by-side comparison. */
+export default function DuplicatesPanel({
+  report,
+  onOpenPost,
+}: {
+  report: DuplicateReport;
+  onOpenPost: (post: Post) => void;
+}) {
+  const [comparing, setComparing] = useState<string | null>(null);
+  const flagged = report.clusters.reduce((n, c) => n + c.posts.length, 0);
+
+  return (
+    <div className="duplicatesPanel">
+      <p className="summary">
+        <strong>{report.clusters.length}</strong> suspected duplicate group{report.clusters.length === 1 ? "" : "s"}{" "}
+        covering <strong>{flagged}</strong> posts. Posts are flagged when at least{" "}
+        {Math.round(DUPLICATE_THRESHOLD * 100)}% of their 5-word phrases and attachment names match.
+      </p>
+
+      {report.clusters.map((cluster, ci) => (
+        <div className="cluster" key={ci}>
+          <h3>
+            Group {ci + 1}: {cluster.posts.length} posts, up to {Math.round(cluster.maxSimilarity * 100)}% similar
+          </h3>
+          <ul className="clusterPosts">
+            {cluster.posts.map((post, pi) => (
+              <li key={post.thread_id ?? `post-${pi}`}>
+                <button type="button" className="linkBtn" onClick={() => onOpenPost(post)}>
+                  {post.title ?? "Untitled"}
+                </button>{" "}
+                <span className="meta">
+                  👤 {post.author_name ?? "Unknown Author"} · 📅{" "}
+                  {safeDate(post.created_at)?.toLocaleDateString() ?? "Unknown date"}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {cluster.pairs.map((pair) => {
+            const key = pairKey(pair);
+            const open = comparing === key;
+            return (
+              <div className="pair" key={key}>
+                <div className="pairRow">
+                  <span className="similarity">{Math.round(pair.similarity * 100)}%</span>
+                  <span className="pairNames">
+                    {pair.a.author_name ?? "Unknown"} ↔ {pair.b.author_name ?? "Unknown"}
+                    {pair.a.author_user_id != null && pair.a.author_user_id === pair.b.author_user_id
+                      ? " (same author)"
+                      : ""}
+                  </span>
+                  <button
+                    type="button"
+                    className="linkBtn"
+                    aria-expanded={open}
+                    onClick={() => setComparing(open ? null : key)}
+                  >
+                    {open ? "Hide comparison" : "Compare side by side"}
+                  </button>
+                </div>
+                {open ? <DuplicateDiff a={pair.a} b={pair.b} /> : null}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      <style jsx>{`
+        .duplicatesPanel {
+          margin-top: 15px;
+        }
+        .summary {
+          font-size: 14px;
+          color: #555;
+          margin-bottom: 12px;
+        }
+        .summary strong {
+          color: #667eea;
+        }
+        .cluster {
+          background: #f8f9fa;
+          border-radius: 8px;
+          padding: 15px;
+          margin-bottom: 12px;
+        }
+        h3 {
+          font-size: 15px;
+          color: #2c3e50;
+          margin-bottom: 8px;
+        }
+        .clusterPosts {
+          list-style: none;
+          margin-bottom: 8px;
+          font-size: 14px;
+        }
+        .clusterPosts li {
+          padding: 3px 0;
+        }
+        .meta {
+          color: #95a5a6;
+          font-size: 12px;
+        }
+        .pair {
+          border-top: 1px solid #e0e0e0;
+          padding: 8px 0 0;
+          margin-top: 8px;
+        }
+        .pairRow {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 10px;
+          font-size: 13px;
+          color: #555;
+        }
+        .similarity {
+          font-weight: 700;
+          color: #c0392b;
+          min-width: 40px;
+        }
+        .pairNames {
+          flex: 1;
+        }
+        .linkBtn {
+          background: none;
+          border: none;
+          padding: 0;
+          color: #2980b9;
+          cursor: pointer;
+          text-align: left;
+          font-size: 13px;
+        }
+        .linkBtn:hover {
+          text-decoration: underline;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import React, { useMemo } from "react";
+import AttachmentView from "@/components/AttachmentView";
+import CodeBlock from "@/components/CodeBlock";
+import MathFormula from "@/components/MathFormula";
+import { classifyAttachment } from "@/lib/attachments";
+import { EdNode, edTextContent, parseEdDocument } from "@/lib/edDocument";
+import { parseMarkdown } from "@/lib/markdown";
+import { mayContainMath, splitMath } from "@/lib/math";
+
+// Elements whose children flow inline; a <math> node inside one of these is inline math.
+const INLINE_PARENTS = new Set(["paragraph", "heading", "bold", "italic", "underline", "link"]);
+
+function youtubeEmbedUrl(src: string): string | null {
+  try {
+    const url = new URL(src);
+    const host = url.hostname.replace(/^www\./, "");
+    if (host === "youtu.be") return `https://www.youtube.com/embed/${url.pathname.slice(1)}`;
+    if (host.endsWith("youtube.com")) {
+      const id = url.searchParams.get("v") ?? url.pathname.match(/\/(?:embed|shorts)\/([^/]+)/)?.[1];
+      if (id) return `https://www.youtube.com/embed/${id}`;
+    }
+  } catch {
+    // not an absolute URL
+  }
+  return null;
+}
+
+function headingTag(level: string | undefined) {
+  const n = Math.min(Math.max(parseInt(level ?? "1", 10) || 1, 1), 5);
+  return `h${n + 1}` as "h2" | "h3" | "h4" | "h5" | "h6";
+}
+
+/** Text with any `$...$`-style LaTeX typeset. */
+function renderText(text: string, key: number | string): React.ReactNode {
+  if (!mayContainMath(text)) return text;
+  return (
+    <React.Fragment key={key}>
+      {splitMath(text).map((seg, i) =>
+        seg.type === "text" ? seg.text : <MathFormula key={i} source={seg.source} display={seg.display} />
+      )}
+    </React.Fragment>
+  );
+}
+
+function renderNodes(nodes: EdNode[], parentTag: string | null): React.ReactNode[] {
+  return nodes.map((node, i) => renderNode(node, parentTag, i));
+}
+
+function renderNode(node: EdNode, parentTag: string | null, key: number): React.ReactNode {
+  if (node.type === "text") return renderText(node.text, key);
+
+  const { tag, attrs, children } = node;
+  const kids = () => renderNodes(children, tag);
+
+  switch (tag) {
+    case "paragraph":
+      if (!edTextContent(children).trim() && !children.some((c) => c.type === "element")) return null;
+      return <p key={key}>{kids()}</p>;
+    case "heading": {
+      const H = headingTag(attrs.level);
+      return <H key={key}>{kids()}</H>;
+    }
+    case "list": {
+      const ordered = attrs.style === "number" || attrs.style === "ordered";
+      return ordered ? <ol key={key}>{kids()}</ol> : <ul key={key}>{kids()}</ul>;
+    }
+    case "list-item":
+      return <li key={key}>{kids()}</li>;
+    case "bold":
+      return <strong key={key}>{kids()}</strong>;
+    case "italic":
+      return <em key={key}>{kids()}</em>;
+    case "underline":
+      return <u key={key}>{kids()}</u>;
+    case "code":
+      return <code key={key}>{edTextContent(children)}</code>;
+    case "pre":
+    case "snippet":
+      return <CodeBlock key={key} code={edTextContent(children)} language={attrs.language} />;
+    case "blockquote":
+      return <blockquote key={key}>{kids()}</blockquote>;
+    case "break":
+      return <br key={key} />;
+    case "figure":
+      return <figure key={key}>{kids()}</figure>;
+    case "image": {
+      if (!attrs.src) return null;
+      const width = Math.round(Number(attrs.width)) || undefined;
+      // eslint-disable-next-line @next/next/no-img-element
+      return <img key={key} src={attrs.src} alt={attrs.alt ?? ""} width={width} />;
+    }
+    case "link":
+      return (
+        <a key={key} href={attrs.href} target="_blank" rel="noreferrer">
+          {children.length > 0 ? kids() : attrs.href}
+        </a>
+      );
+    case "file": {
+      const attachment = classifyAttachment(attrs);
+      return attachment ? <AttachmentView key={key} attachment={attachment} /> : null;
+    }
+    case "video": {
+      if (!attrs.src) return null;
+      const embed = youtubeEmbedUrl(attrs.src);
+      return embed ? (
+        <iframe
+          key={key}
+          className="video"
+          src={embed}
+          title="Embedded video"
+          allow="accelerometer; encrypted-media; gyroscope; picture-in-picture"
+          allowFullScreen
+        />
+      ) : (
+        <video key={key} src={attrs.src} controls />
+      );
+    }
+    case "math": {
+      const display = !(parentTag && INLINE_PARENTS.has(parentTag));
+      return <MathFormula key={key} source={edTextContent(children).trim()} display={display} />;
+    }
+    default:
+      return <React.Fragment key={key}>{kids()}</React.Fragment>;
+  }
+}
+
+function renderPlainText(text: string): React.ReactNode[] {
+  return text
+    .split("\n\n")
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((para, idx) => {
+      const parts = para.split("\n");
+      return (
+        <p key={`para-${idx}`}>
+          {parts.map((part, j) => (
+            <React.Fragment key={`${idx}-${j}`}>
+              {renderText(part, j)}
+              {j < parts.length - 1 ? <br /> : null}
+            </React.Fragment>
+          ))}
+        </p>
+      );
+    });
+}
+
+/**
+ * Renders Ed XML content as React, in document order. Falls back to the
+ * plain-text `document` field when there is no XML. `markdown` is read in
+ * place of `xml`, for notebook cells.
+ */
+export default function EdContent({
+  xml,
+  markdown,
+  fallbackText,
+}: {
+  xml?: string;
+  markdown?: string;
+  fallbackText?: string;
+}) {
+  const blocks = useMemo(() => {
+    const nodes = markdown !== undefined ? parseMarkdown(markdown) : parseEdDocument(xml ?? "");
+    return nodes.length > 0 ? renderNodes(nodes, null) : renderPlainText(fallbackText ?? "");
+  }, [xml, markdown, fallbackText]);
+
+  return (
+    <div className="edContent">
+      {blocks.length > 0 ? blocks : <p style={{ color: "#999" }}>No content available for this post.</p>}
+
+      <style jsx>{`
+        .edContent :global(p) {
+          margin-bottom: 15px;
+        }
+        .edContent :global(h2),
+        .edContent :global(h3),
+        .edContent :global(h4),
+        .edContent :global(h5),
+        .edContent :global(h6) {
+          color: #2c3e50;
+          margin: 20px 0 10px;
+          line-height: 1.4;
+        }
+        .edContent :global(h2) {
+          font-size: 22px;
+        }
+        .edContent :global(h3) {
+          font-size: 19px;
+        }
+        .edContent :global(h4),
+        .edContent :global(h5),
+        .edContent :global(h6) {
+          font-size: 16px;
+        }
+        .edContent :global(ul),
+        .edContent :global(ol) {
+          margin: 0 0 15px 24px;
+        }
+        .edContent :global(ul) {
+          list-style: disc;
+        }
+        .edContent :global(ol) {
+          list-style: decimal;
+        }
+        .edContent :global(li > p) {
+          margin-bottom: 5px;
+        }
+        .edContent :global(code) {
+          font-family: var(--font-geist-mono), monospace;
+          background: #f4f4f7;
+          color: #c0392b;
+          border: 1px solid #e6e6ee;
+          padding: 1px 5px;
+          border-radius: 4px;
+          font-size: 0.9em;
+        }
+        .edContent :global(pre) {
+          font-family: var(--font-geist-mono), monospace;
+          background: #f4f4f7;
+          padding: 12px 15px;
+          border-radius: 6px;
+          overflow-x: auto;
+          white-space: pre;
+          margin-bottom: 15px;
+          font-size: 13px;
+          line-height: 1.5;
+        }
+        .edContent :global(blockquote) {
+          border-left: 4px solid #667eea;
+          background: #f8f9fa;
+          padding: 10px 15px;
+          margin: 0 0 15px;
+          color: #555;
+        }
+        .edContent :global(a) {
+          color: #2980b9;
+          word-break: break-word;
+        }
+        .edContent :global(figure) {
+          margin: 0;
+        }
+        .edContent :global(img) {
+          max-width: 100%;
+          height: auto;
+          border-radius: 8px;
+          margin: 20px 0;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+          display: block;
+        }
+        .edContent :global(iframe) {
+          width: 100%;
+          height: 800px;
+          border: 2px solid #ddd;
+          border-radius: 8px;
+          margin: 20px 0;
+        }
+        .edContent :global(iframe.video),
+        .edContent :global(video) {
+          width: 100%;
+          height: auto;
+          aspect-ratio: 16 / 9;
+          border: none;
+          margin: 15px 0;
+          display: block;
+        }
+        .edContent :global(.mathBlock) {
+          display: block;
+          overflow-x: auto;
+          overflow-y: hidden;
+          margin-bottom: 15px;
+        }
+        .edContent :global(.mathError) {
+          color: #c0392b;
+        }
+        .edContent :global(.mathError.block) {
+          display: block;
+          margin-bottom: 15px;
+        }
+      `}</style>
+    </div>
+  );
+}
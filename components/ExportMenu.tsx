@@ -0,0 +1,95 @@
+"use client";
+
+import { useRef } from "react";
+import { EXPORT_FORMATS, ExportFormat, downloadText, exportPosts } from "@/lib/export";
+import { LabelSource, Post } from "@/lib/posts";
+
+/**
+ * Dropdown that downloads the given posts (the current filter result) in one of
+ * the export formats. CSV and the digests show `posts` with tag corrections
+ * applied; JSONL writes `originals`, the same posts as loaded.
+ */
+export default function ExportMenu({
+  posts,
+  originals,
+  labelSource,
+}: {
+  posts: Post[];
+  originals: Post[];
+  labelSource: LabelSource;
+}) {
+  const detailsRef = useRef<HTMLDetailsElement | null>(null);
+
+  function run(format: ExportFormat) {
+    const { extension, mime } = EXPORT_FORMATS[format];
+    const stamp = new Date().toISOString().slice(0, 10);
+    const exported = format === "jsonl" ? originals : posts;
+    downloadText(exportPosts(format, exported, labelSource), `posts-${stamp}.${extension}`, mime);
+    detailsRef.current?.removeAttribute("open");
+  }
+
+  return (
+    <details className="exportMenu" ref={detailsRef}>
+      <summary>⬇️ Export ({posts.length})</summary>
+      <div className="exportOptions" role="menu">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <button key={format} type="button" role="menuitem" disabled={posts.length === 0} onClick={() => run(format)}>
+            {EXPORT_FORMATS[format].label}
+          </button>
+        ))}
+      </div>
+
+      <style jsx>{`
+        .exportMenu {
+          position: relative;
+        }
+        summary {
+          list-style: none;
+          padding: 6px 12px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+          background: white;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+        summary::-webkit-details-marker {
+          display: none;
+        }
+        .exportMenu[open] summary {
+          border-color: #667eea;
+        }
+        .exportOptions {
+          position: absolute;
+          right: 0;
+          top: calc(100% + 4px);
+          z-index: 10;
+          display: flex;
+          flex-direction: column;
+          min-width: 210px;
+          background: white;
+          border: 1px solid #e0e0e0;
+          border-radius: 8px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.12);
+          overflow: hidden;
+        }
+        .exportOptions button {
+          text-align: left;
+          padding: 10px 14px;
+          border: none;
+          background: white;
+          font-size: 14px;
+          color: #2c3e50;
+          cursor: pointer;
+        }
+        .exportOptions button:hover:not(:disabled) {
+          background: #f0f2fd;
+        }
+        .exportOptions button:disabled {
+          color: #aaa;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </details>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { labelsDisagree, postLabelDiff, tagAgreement } from "@/lib/labels";
+import { Post, TAG_KINDS, TagKind, normalizeTagLabel } from "@/lib/posts";
+
+const KIND_LABELS: Record<TagKind, string> = { models: "Model", topics: "Topic", assignments: "Assignment" };
+
+/** LLM vs heuristic labels over the given posts: agreement per tag and the posts where they differ. */
+export default function LabelComparison({ posts, onOpenPost }: { posts: Post[]; onOpenPost: (post: Post) => void }) {
+  const [showAllTags, setShowAllTags] = useState(false);
+
+  const disagreements = useMemo(
+    () =>
+      posts
+        .map((post) => ({ post, diff: postLabelDiff(post) }))
+        .filter((entry) => labelsDisagree(entry.diff)),
+    [posts]
+  );
+  const agreement = useMemo(() => tagAgreement(posts), [posts]);
+  const visibleTags = showAllTags ? agreement : agreement.slice(0, 15);
+
+  return (
+    <div className="labelComparison">
+      <p className="summary">
+        Label sources disagree on <strong>{disagreements.length}</strong> of <strong>{posts.length}</strong> posts
+        {posts.length > 0 ? ` (${Math.round((100 * disagreements.length) / posts.length)}%)` : ""}.
+      </p>
+
+      <div className="panels">
+        <div className="panel">
+          <h3>Agreement per tag</h3>
+          <table className="agreementTable">
+            <thead>
+              <tr>
+                <th>Tag</th>
+                <th title="Both sources">Both</th>
+                <th title="LLM only">LLM</th>
+                <th title="Heuristic only">Heur.</th>
+                <th>Agreement</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleTags.map((r) => (
+                <tr key={`${r.kind}-${r.tag}`}>
+                  <td>
+                    <span className="kind">{KIND_LABELS[r.kind]}</span> {normalizeTagLabel(r.tag)}
+                  </td>
+                  <td>{r.both}</td>
+                  <td>{r.llmOnly}</td>
+                  <td>{r.heuristicOnly}</td>
+                  <td>
+                    <span className="meter">
+                      <span style={{ width: `${r.agreement * 100}%` }} />
+                    </span>
+                    {Math.round(r.agreement * 100)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {agreement.length > 15 ? (
+            <button type="button" className="linkBtn" onClick={() => setShowAllTags((v) => !v)}>
+              {showAllTags ? "Show least reliable only" : `Show all ${agreement.length} tags`}
+            </button>
+          ) : null}
+        </div>
+
+        <div className="panel">
+          <h3>Posts where the sources differ</h3>
+          {disagreements.length === 0 ? (
+            <p className="muted">No disagreements in the current selection.</p>
+          ) : (
+            <ul className="diffList">
+              {disagreements.map(({ post, diff }, i) => (
+                <li key={post.thread_id ?? `idx-${i}`}>
+                  <button type="button" className="linkBtn" onClick={() => onOpenPost(post)}>
+                    {post.title ?? "Untitled"}
+                  </button>
+                  {TAG_KINDS.filter((k) => diff[k].llmOnly.length + diff[k].heuristicOnly.length > 0).map((kind) => (
+                    <div className="diffRow" key={kind}>
+                      <span className="kind">{KIND_LABELS[kind]}</span>
+                      {diff[kind].shared.map((t) => (
+                        <span key={`s-${t}`} className="chip shared">
+                          {normalizeTagLabel(t)}
+                        </span>
+                      ))}
+                      {diff[kind].llmOnly.map((t) => (
+                        <span key={`l-${t}`} className="chip llm" title="LLM only">
+                          + {normalizeTagLabel(t)}
+                        </span>
+                      ))}
+                      {diff[kind].heuristicOnly.map((t) => (
+                        <span key={`h-${t}`} className="chip heuristic" title="Heuristic only">
+                          − {normalizeTagLabel(t)}
+                        </span>
+                      ))}
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="legend">
+            <span className="chip llm">+ LLM only</span> <span className="chip heuristic">− heuristic only</span>{" "}
+            <span className="chip shared">both</span>
+          </p>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .labelComparison {
+          margin-top: 15px;
+        }
+        .summary {
+          font-size: 14px;
+          color: #555;
+          margin-bottom: 12px;
+        }
+        .summary strong {
+          color: #667eea;
+        }
+        .panels {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(380px, 1fr));
+          gap: 15px;
+        }
+        .panel {
+          background: #f8f9fa;
+          border-radius: 8px;
+          padding: 15px;
+          min-width: 0;
+        }
+        .panel h3 {
+          font-size: 15px;
+          color: #2c3e50;
+          margin-bottom: 10px;
+        }
+        .agreementTable {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 12px;
+          color: #555;
+        }
+        .agreementTable th,
+        .agreementTable td {
+          text-align: left;
+          padding: 4px 6px;
+          border-bottom: 1px solid #e0e0e0;
+        }
+        .kind {
+          font-size: 10px;
+          text-transform: uppercase;
+          color: #95a5a6;
+          margin-right: 4px;
+        }
+        .meter {
+          display: inline-block;
+          width: 60px;
+          height: 8px;
+          background: #e0e0e0;
+          border-radius: 4px;
+          overflow: hidden;
+          margin-right: 6px;
+          vertical-align: middle;
+        }
+        .meter span {
+          display: block;
+          height: 100%;
+          background: #27ae60;
+        }
+        .diffList {
+          list-style: none;
+          max-height: 420px;
+          overflow-y: auto;
+        }
+        .diffList li {
+          padding: 8px 0;
+          border-bottom: 1px solid #e0e0e0;
+        }
+        .diffRow {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 4px;
+          margin-top: 4px;
+        }
+        .chip {
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 11px;
+          background: #e8f4f8;
+          color: #2980b9;
+        }
+        .chip.llm {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+        .chip.heuristic {
+          background: #fdecea;
+          color: #c0392b;
+        }
+        .linkBtn {
+          background: none;
+          border: none;
+          padding: 0;
+          color: #2980b9;
+          cursor: pointer;
+          font-size: 13px;
+          font-weight: 600;
+          text-align: left;
+        }
+        .linkBtn:hover {
+          text-decoration: underline;
+        }
+        .muted {
+          color: #999;
+          font-size: 13px;
+        }
+        .legend {
+          margin-top: 10px;
+          font-size: 11px;
+        }
+      `}</style>
+    </div>
+  );
+}
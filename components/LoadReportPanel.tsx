@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { LoadReport } from "@/lib/ingest";
+
+const MAX_LISTED = 50;
+
+const FORMAT_LABELS = { jsonl: "JSONL", "json-array": "JSON array", "json-object": "single JSON object" } as const;
+
+/** Summary of the last dataset load: format, version, counts and every skipped record. */
+export default function LoadReportPanel({ report, onDismiss }: { report: LoadReport; onDismiss: () => void }) {
+  const [expanded, setExpanded] = useState(report.skipped.length > 0);
+  const missing = Object.entries(report.missingRequired);
+  const hasProblems = report.skipped.length > 0;
+
+  return (
+    <div className={`loadReport ${hasProblems || report.cancelled ? "warn" : "ok"}`}>
+      <div className="reportSummary">
+        <span>
+          {hasProblems || report.cancelled ? "⚠️" : "✅"} Loaded <strong>{report.loaded}</strong> of <strong>{report.totalRecords}</strong>{" "}
+          records from <code>{report.source}</code> ({FORMAT_LABELS[report.format]}
+          {report.versions.length > 0 ? `, version ${report.versions.join(", ")}` : ""})
+          {hasProblems ? ` · ${report.skipped.length} skipped` : ""}
+          {report.cancelled ? " · cancelled before the end of the file" : ""}
+        </span>
+        <span className="reportActions">
+          {hasProblems ? (
+            <button type="button" onClick={() => setExpanded((e) => !e)} aria-expanded={expanded}>
+              {expanded ? "Hide details" : "Show details"}
+            </button>
+          ) : null}
+          <button type="button" onClick={onDismiss} aria-label="Dismiss load report">
+            ×
+          </button>
+        </span>
+      </div>
+
+      {expanded && hasProblems ? (
+        <div className="reportDetails">
+          {missing.length > 0 ? (
+            <p>
+              Missing required fields:{" "}
+              {missing.map(([field, n], i) => (
+                <span key={field}>
+                  {i > 0 ? ", " : ""}
+                  <code>{field}</code> ({n})
+                </span>
+              ))}
+            </p>
+          ) : null}
+          <ul>
+            {report.skipped.slice(0, MAX_LISTED).map((s) => (
+              <li key={s.line}>
+                <strong>{report.format === "jsonl" ? `Line ${s.line}` : `Record ${s.line}`}:</strong> {s.reason}
+              </li>
+            ))}
+          </ul>
+          {report.skipped.length > MAX_LISTED ? <p>…and {report.skipped.length - MAX_LISTED} more.</p> : null}
+        </div>
+      ) : null}
+
+      <style jsx>{`
+        .loadReport {
+          margin-top: 15px;
+          padding: 12px 15px;
+          border-radius: 8px;
+          font-size: 14px;
+          color: #2c3e50;
+        }
+        .loadReport.ok {
+          background: #e8f8e8;
+          border-left: 4px solid #27ae60;
+        }
+        .loadReport.warn {
+          background: #fff5e6;
+          border-left: 4px solid #f39c12;
+        }
+        .reportSummary {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 10px;
+        }
+        .reportActions {
+          display: flex;
+          gap: 6px;
+          flex-shrink: 0;
+        }
+        .reportActions button {
+          background: rgba(0, 0, 0, 0.06);
+          border: none;
+          border-radius: 6px;
+          padding: 4px 10px;
+          cursor: pointer;
+          font-size: 13px;
+        }
+        .reportDetails {
+          margin-top: 10px;
+          font-size: 13px;
+          max-height: 240px;
+          overflow-y: auto;
+        }
+        .reportDetails ul {
+          margin: 6px 0 0 20px;
+          list-style: disc;
+        }
+        .reportDetails li {
+          margin-bottom: 3px;
+          word-break: break-word;
+        }
+        code {
+          font-family: var(--font-geist-mono), monospace;
+          font-size: 12px;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useMemo } from "react";
+import { renderMath } from "@/lib/math";
+
+/**
+ * Typeset TeX. Invalid input shows the source with a ⚠ marker and the parse
+ * error on hover. Styled by the surrounding EdContent.
+ */
+export default function MathFormula({ source, display }: { source: string; display: boolean }) {
+  const rendered = useMemo(() => renderMath(source, display), [source, display]);
+
+  if (rendered.error !== null) {
+    return (
+      <span className={`mathError ${display ? "block" : ""}`} title={rendered.error}>
+        <span aria-label="Math error">⚠</span> <code>{source}</code>
+      </span>
+    );
+  }
+  // Always a span: display math can sit inside a paragraph when it comes from `$$...$$` in text
+  return <span className={display ? "mathBlock" : "mathInline"} dangerouslySetInnerHTML={{ __html: rendered.html }} />;
+}
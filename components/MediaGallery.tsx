@@ -0,0 +1,345 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { ATTACHMENT_KIND_ICONS, ATTACHMENT_KIND_LABELS, AttachmentKind } from "@/lib/attachments";
+import { GalleryItem } from "@/lib/gallery";
+import { normalizeTagLabel } from "@/lib/posts";
+
+function countBy(items: GalleryItem[], keys: (item: GalleryItem) => string[]) {
+  const counts = new Map<string, number>();
+  for (const item of items) for (const k of new Set(keys(item))) counts.set(k, (counts.get(k) ?? 0) + 1);
+  return counts;
+}
+
+function sortedKeys(counts: Map<string, number>) {
+  return Array.from(counts.keys()).sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b));
+}
+
+/** Filterable grid of every attachment, image and video, each linking back to its post. */
+export default function MediaGallery({ items }: { items: GalleryItem[] }) {
+  const [kinds, setKinds] = useState<Set<AttachmentKind>>(() => new Set());
+  const [model, setModel] = useState("");
+  const [topic, setTopic] = useState("");
+  const [query, setQuery] = useState("");
+
+  const kindCounts = useMemo(() => countBy(items, (i) => [i.kind]), [items]);
+  const modelCounts = useMemo(() => countBy(items, (i) => i.models), [items]);
+  const topicCounts = useMemo(() => countBy(items, (i) => i.topics), [items]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return items.filter(
+      (i) =>
+        (kinds.size === 0 || kinds.has(i.kind)) &&
+        (!model || i.models.includes(model)) &&
+        (!topic || i.topics.includes(topic)) &&
+        (!q || i.name.toLowerCase().includes(q) || i.postTitle.toLowerCase().includes(q))
+    );
+  }, [items, kinds, model, topic, query]);
+
+  function toggleKind(kind: AttachmentKind) {
+    setKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  }
+
+  return (
+    <div className="page">
+      <div className="container">
+        <div className="header">
+          <Link href="/" className="backLink">
+            ← Posts Explorer
+          </Link>
+          <h1>🖼️ Attachment Gallery</h1>
+          <p className="muted">
+            {items.length} attachments, images and videos from all posts. Click an item to open it, or its post title to
+            read the submission.
+          </p>
+        </div>
+
+        <div className="filters">
+          <div className="filterGroup">
+            <label>File Type</label>
+            <div className="chips">
+              {(Object.keys(ATTACHMENT_KIND_LABELS) as AttachmentKind[])
+                .filter((kind) => kindCounts.has(kind))
+                .map((kind) => (
+                  <button
+                    type="button"
+                    key={kind}
+                    className={`chip ${kinds.has(kind) ? "active" : ""}`}
+                    aria-pressed={kinds.has(kind)}
+                    onClick={() => toggleKind(kind)}
+                  >
+                    {ATTACHMENT_KIND_ICONS[kind]} {ATTACHMENT_KIND_LABELS[kind]}
+                    <span className="chipCount">{kindCounts.get(kind)}</span>
+                  </button>
+                ))}
+            </div>
+          </div>
+
+          <div className="filterGrid">
+            <div className="filterGroup">
+              <label htmlFor="galleryQuery">Search</label>
+              <input
+                id="galleryQuery"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="File name or post title..."
+              />
+            </div>
+            <div className="filterGroup">
+              <label htmlFor="galleryModel">Model</label>
+              <select id="galleryModel" value={model} onChange={(e) => setModel(e.target.value)}>
+                <option value="">All models</option>
+                {sortedKeys(modelCounts).map((m) => (
+                  <option key={m} value={m}>
+                    {m} ({modelCounts.get(m)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="filterGroup">
+              <label htmlFor="galleryTopic">Topic</label>
+              <select id="galleryTopic" value={topic} onChange={(e) => setTopic(e.target.value)}>
+                <option value="">All topics</option>
+                {sortedKeys(topicCounts).map((t) => (
+                  <option key={t} value={t}>
+                    {normalizeTagLabel(t)} ({topicCounts.get(t)})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="muted">
+            Showing <strong>{visible.length}</strong> of <strong>{items.length}</strong> items
+          </div>
+        </div>
+
+        {visible.length === 0 ? (
+          <div className="noResults">No attachments match these filters.</div>
+        ) : (
+          <div className="grid">
+            {visible.map((item) => (
+              <div className="card" key={item.id}>
+                <a className="preview" href={item.url} target="_blank" rel="noreferrer" title={`Open ${item.name}`}>
+                  {item.kind === "image" ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={item.url} alt={item.name} loading="lazy" />
+                  ) : (
+                    <span className="icon">{ATTACHMENT_KIND_ICONS[item.kind]}</span>
+                  )}
+                </a>
+                <div className="cardBody">
+                  <div className="name" title={item.name}>
+                    {item.name}
+                  </div>
+                  <div className="type">{item.typeLabel}</div>
+                  <Link href={`/posts/${item.threadId}`} className="postLink">
+                    {item.postTitle}
+                  </Link>
+                  <div className="type">👤 {item.author}</div>
+                  <div className="tags">
+                    {item.models.map((m) => (
+                      <span key={`m-${m}`} className="tag model">
+                        {m}
+                      </span>
+                    ))}
+                    {item.topics.map((t) => (
+                      <span key={`t-${t}`} className="tag topic">
+                        {normalizeTagLabel(t)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <style jsx>{`
+        * {
+          box-sizing: border-box;
+        }
+        .page {
+          font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          min-height: 100vh;
+          padding: 20px;
+        }
+        .container {
+          max-width: 1400px;
+          margin: 0 auto;
+        }
+        .header,
+        .filters {
+          background: white;
+          padding: 25px 30px;
+          border-radius: 12px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          margin-bottom: 20px;
+        }
+        .header :global(.backLink) {
+          color: #667eea;
+          text-decoration: none;
+          font-size: 14px;
+          font-weight: 600;
+        }
+        h1 {
+          color: #2c3e50;
+          margin: 10px 0;
+        }
+        .muted {
+          color: #555;
+          font-size: 14px;
+        }
+        .filterGroup {
+          margin-bottom: 20px;
+        }
+        .filterGroup label {
+          display: block;
+          font-weight: 600;
+          color: #2c3e50;
+          margin-bottom: 8px;
+        }
+        .filterGroup input,
+        .filterGroup select {
+          width: 100%;
+          padding: 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+          background: white;
+        }
+        .filterGroup input:focus,
+        .filterGroup select:focus {
+          outline: none;
+          border-color: #667eea;
+        }
+        .filterGrid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
+          gap: 15px;
+        }
+        .chips {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+        }
+        .chip {
+          background: #e8f4f8;
+          color: #2980b9;
+          padding: 6px 12px;
+          border-radius: 20px;
+          font-size: 13px;
+          cursor: pointer;
+          border: 2px solid transparent;
+        }
+        .chip.active {
+          background: #667eea;
+          color: white;
+          border-color: #5568d3;
+        }
+        .chipCount {
+          display: inline-block;
+          margin-left: 6px;
+          padding: 0 6px;
+          border-radius: 8px;
+          background: rgba(0, 0, 0, 0.08);
+          font-size: 11px;
+        }
+        .noResults {
+          background: white;
+          padding: 40px;
+          border-radius: 12px;
+          text-align: center;
+          color: #7f8c8d;
+        }
+        .grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(240px, 1fr));
+          gap: 20px;
+        }
+        .card {
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          overflow: hidden;
+          display: flex;
+          flex-direction: column;
+        }
+        .preview {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          height: 150px;
+          background: #f8f9fa;
+          border-bottom: 1px solid #ecf0f1;
+          text-decoration: none;
+        }
+        .preview img {
+          width: 100%;
+          height: 100%;
+          object-fit: cover;
+        }
+        .icon {
+          font-size: 56px;
+        }
+        .cardBody {
+          padding: 12px 15px 15px;
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          min-width: 0;
+        }
+        .name {
+          font-weight: 600;
+          color: #2c3e50;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .type {
+          color: #95a5a6;
+          font-size: 12px;
+        }
+        .cardBody :global(.postLink) {
+          color: #2980b9;
+          font-size: 13px;
+          text-decoration: none;
+        }
+        .cardBody :global(.postLink:hover) {
+          text-decoration: underline;
+        }
+        .tags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin-top: 4px;
+        }
+        .tag {
+          background: #e8f4f8;
+          color: #2980b9;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 11px;
+          font-weight: 500;
+        }
+        .tag.model {
+          background: #fff5e6;
+          color: #f39c12;
+        }
+        .tag.topic {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { downloadText } from "@/lib/export";
+import { mergePersonalState, personalStateToJSON, personalStore, readPersonalState } from "@/lib/personal";
+import { useLocalStore } from "@/lib/useLocalStore";
+
+/** Dropdown to back up stars, read marks and notes as JSON, or merge in a backup. */
+export default function PersonalDataMenu() {
+  const state = useLocalStore(personalStore);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const count = Object.keys(state).length;
+
+  function exportState() {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadText(personalStateToJSON(state), `my-posts-${stamp}.json`, "application/json");
+  }
+
+  async function importState(file: File) {
+    try {
+      const incoming = readPersonalState(JSON.parse(await file.text()));
+      const n = Object.keys(incoming).length;
+      personalStore.set((prev) => mergePersonalState(prev, incoming));
+      setMessage(`Imported ${n} post${n === 1 ? "" : "s"} from ${file.name}.`);
+    } catch (e) {
+      setMessage(`Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  return (
+    <details className="personalMenu">
+      <summary>🔖 My data ({count})</summary>
+      <div className="personalOptions" role="menu">
+        <button type="button" role="menuitem" disabled={count === 0} onClick={exportState}>
+          Export stars, read marks &amp; notes
+        </button>
+        <button type="button" role="menuitem" onClick={() => inputRef.current?.click()}>
+          Import from JSON…
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importState(file);
+            e.target.value = "";
+          }}
+        />
+        {message ? (
+          <p className="personalMessage" role="status">
+            {message}
+          </p>
+        ) : null}
+        <p className="personalHint">Saved in this browser only. Imports are merged with what is already here.</p>
+      </div>
+
+      <style jsx>{`
+        .personalMenu {
+          position: relative;
+        }
+        summary {
+          list-style: none;
+          padding: 6px 12px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+          background: white;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+        summary::-webkit-details-marker {
+          display: none;
+        }
+        .personalMenu[open] summary {
+          border-color: #667eea;
+        }
+        .personalOptions {
+          position: absolute;
+          right: 0;
+          top: calc(100% + 4px);
+          z-index: 10;
+          display: flex;
+          flex-direction: column;
+          width: 260px;
+          background: white;
+          border: 1px solid #e0e0e0;
+          border-radius: 8px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.12);
+          overflow: hidden;
+        }
+        .personalOptions button {
+          text-align: left;
+          padding: 10px 14px;
+          border: none;
+          background: white;
+          font-size: 14px;
+          color: #2c3e50;
+          cursor: pointer;
+        }
+        .personalOptions button:hover:not(:disabled) {
+          background: #f0f2fd;
+        }
+        .personalOptions button:disabled {
+          color: #aaa;
+          cursor: not-allowed;
+        }
+        .personalMessage,
+        .personalHint {
+          margin: 0;
+          padding: 8px 14px;
+          font-size: 12px;
+          border-top: 1px solid #f0f0f0;
+        }
+        .personalMessage {
+          color: #2c3e50;
+        }
+        .personalHint {
+          color: #95a5a6;
+        }
+      `}</style>
+    </details>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { personalStore, updatePersonalEntry } from "@/lib/personal";
+import { useDebouncedValue } from "@/lib/useDebouncedValue";
+import { useLocalStore } from "@/lib/useLocalStore";
+
+const NOTE_SAVE_DELAY = 500;
+
+/**
+ * Star, read state and private note for one post, shown in the post modal.
+ * The note is edited as a local draft and saved (trimmed) once typing pauses
+ * or the panel closes; key the panel by thread so each post gets its own draft.
+ */
+export default function PersonalPanel({ threadId }: { threadId: number }) {
+  const entry = useLocalStore(personalStore)[threadId];
+  const starred = !!entry?.starred;
+  const read = !!entry?.readAt;
+
+  // null until the user types; the saved note shows until then
+  const [draft, setDraft] = useState<string | null>(null);
+  const unsaved = useRef<string | null>(null);
+  const debouncedDraft = useDebouncedValue(draft, NOTE_SAVE_DELAY);
+
+  useEffect(() => {
+    if (debouncedDraft === null || debouncedDraft !== unsaved.current) return;
+    unsaved.current = null;
+    updatePersonalEntry(threadId, { note: debouncedDraft.trim() || undefined });
+  }, [debouncedDraft, threadId]);
+
+  // Saves a pending edit when the modal closes before the delay is up
+  useEffect(() => {
+    const pending = unsaved;
+    return () => {
+      if (pending.current !== null) updatePersonalEntry(threadId, { note: pending.current.trim() || undefined });
+    };
+  }, [threadId]);
+
+  return (
+    <div className="personalPanel">
+      <div className="personalActions">
+        <button
+          type="button"
+          className={`personalBtn ${starred ? "on" : ""}`}
+          aria-pressed={starred}
+          onClick={() => updatePersonalEntry(threadId, { starred: starred ? undefined : true })}
+        >
+          {starred ? "★ Starred" : "☆ Star"}
+        </button>
+        <button
+          type="button"
+          className="personalBtn"
+          onClick={() => updatePersonalEntry(threadId, { readAt: read ? undefined : new Date().toISOString() })}
+        >
+          {read ? "Mark as unread" : "Mark as read"}
+        </button>
+        {entry?.readAt ? (
+          <span className="personalMeta">Read {new Date(entry.readAt).toLocaleDateString()}</span>
+        ) : null}
+      </div>
+      <label className="personalNoteLabel" htmlFor={`note-${threadId}`}>
+        📝 My notes <span className="personalMeta">(private, saved in this browser)</span>
+      </label>
+      <textarea
+        id={`note-${threadId}`}
+        className="personalNote"
+        value={draft ?? entry?.note ?? ""}
+        onChange={(e) => {
+          unsaved.current = e.target.value;
+          setDraft(e.target.value);
+        }}
+        placeholder="Notes for yourself about this submission..."
+        rows={3}
+      />
+
+      <style jsx>{`
+        .personalPanel {
+          padding: 15px 30px;
+          border-bottom: 2px solid #f0f0f0;
+          background: #fafbff;
+        }
+        .personalActions {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 8px;
+          margin-bottom: 10px;
+        }
+        .personalBtn {
+          padding: 5px 12px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          font-size: 13px;
+          color: #2c3e50;
+          cursor: pointer;
+        }
+        .personalBtn:hover {
+          border-color: #667eea;
+        }
+        .personalBtn.on {
+          border-color: #f1c40f;
+          background: #fffbe6;
+          color: #b7950b;
+        }
+        .personalMeta {
+          color: #95a5a6;
+          font-size: 12px;
+          font-weight: normal;
+        }
+        .personalNoteLabel {
+          display: block;
+          font-weight: 600;
+          font-size: 14px;
+          color: #2c3e50;
+          margin-bottom: 6px;
+        }
+        .personalNote {
+          width: 100%;
+          padding: 8px 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font: inherit;
+          font-size: 14px;
+          resize: vertical;
+        }
+        .personalNote:focus {
+          outline: none;
+          border-color: #667eea;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import Link from "next/link";
+import { memo, useEffect, useRef } from "react";
+import { authorHref } from "@/lib/authors";
+import { PersonalEntry } from "@/lib/personal";
+import { LabelSource, Post, normalizeTagLabel, postTags, safeDate } from "@/lib/posts";
+import { REVIEW_STATUSES, ReviewStatus } from "@/lib/review";
+import { SearchDoc, postSnippet } from "@/lib/search";
+
+type Props = {
+  post: Post;
+  labelSource: LabelSource;
+  // search text for the highlighted snippet; the plain preview is shown without one
+  query: string;
+  searchDoc?: SearchDoc;
+  source?: string;
+  // the viewer's star / read / note state; undefined means unread and unmarked
+  personal?: PersonalEntry;
+  // grading status, only passed in review mode
+  review?: ReviewStatus;
+  // the keyboard cursor (j/k) is on this card
+  active?: boolean;
+  onOpen: (post: Post) => void;
+  onFocus?: (post: Post) => void;
+};
+
+/** Summary card for the explorer grid. Fills the fixed-height cell the grid gives it. */
+function PostCard({ post, labelSource, query, searchDoc, source, personal, review, active, onOpen, onFocus }: Props) {
+  const ref = useRef<HTMLButtonElement | null>(null);
+
+  // Take focus when the cursor lands here, including when the grid first mounts this card after
+  // scrolling to it, but never away from an input or anything other than another card.
+  useEffect(() => {
+    const current = document.activeElement;
+    if (active && (!current || current === document.body || current.classList.contains("cardOpen"))) {
+      ref.current?.focus({ preventScroll: true });
+    }
+  }, [active]);
+
+  const models = postTags(post, "models", labelSource);
+  const topics = postTags(post, "topics", labelSource);
+  const assignments = postTags(post, "assignments", labelSource);
+
+  const documentText = post.document ?? post.raw?.document ?? "";
+  const snippet = query.trim() && searchDoc ? postSnippet(searchDoc, query) : null;
+  const preview = snippet
+    ? snippet.map((seg, i) => (seg.hit ? <mark key={i}>{seg.text}</mark> : seg.text))
+    : documentText
+      ? `${documentText.slice(0, 200)}...`
+      : "No content available";
+
+  const d = safeDate(post.created_at);
+  const dateStr = d ? d.toLocaleDateString() : "Unknown date";
+
+  const authorName = post.author_name ?? "Unknown Author";
+
+  // The whole card opens the post through an overlay button; the author link sits above it, since a
+  // link can't be nested inside a button.
+  return (
+    <div className={`postCard ${personal?.readAt ? "read" : "unread"} ${active ? "active" : ""}`}>
+      <button
+        ref={ref}
+        className="cardOpen"
+        onClick={() => onOpen(post)}
+        onFocus={() => onFocus?.(post)}
+        type="button"
+        aria-label={`Open post: ${post.title ?? "Untitled"}`}
+      />
+      <div className="postHeader">
+        <div className="postTitleRow">
+          {personal?.readAt ? null : <span className="unreadDot" title="Unread" aria-label="Unread" />}
+          <div className="postTitle">{post.title ?? "Untitled"}</div>
+          {personal?.starred ? (
+            <span className="mark starred" title="Starred" aria-label="Starred">
+              ★
+            </span>
+          ) : null}
+          {personal?.note ? (
+            <span className="mark" title={personal.note} aria-label="Has your notes">
+              📝
+            </span>
+          ) : null}
+        </div>
+        <div className="postAuthor">
+          👤{" "}
+          {post.author_user_id != null ? (
+            <Link href={authorHref(post.author_user_id)} className="authorLink">
+              {authorName}
+            </Link>
+          ) : (
+            authorName
+          )}
+        </div>
+        <div className="postDate">📅 {dateStr}</div>
+        {source ? <div className="postSource">📄 {source}</div> : null}
+        <div className="postEngagement">
+          <span title="Views">👁 {post.raw?.view_count ?? 0}</span>
+          <span title="Votes">▲ {post.raw?.vote_count ?? 0}</span>
+          <span title="Replies">💬 {post.raw?.reply_count ?? 0}</span>
+          <span title="Stars">⭐ {post.raw?.star_count ?? 0}</span>
+          {review ? <span className={`reviewBadge ${review}`}>{REVIEW_STATUSES[review]}</span> : null}
+        </div>
+      </div>
+
+      <div className="postBody">{preview}</div>
+
+      <div className="postTags">
+        {models.map((m) => (
+          <span key={`m-${m}`} className="tag model">
+            {m}
+          </span>
+        ))}
+        {topics.map((t) => (
+          <span key={`t-${t}`} className="tag topic">
+            {normalizeTagLabel(t)}
+          </span>
+        ))}
+        {assignments.map((a) => (
+          <span key={`a-${a}`} className="tag">
+            {normalizeTagLabel(a)}
+          </span>
+        ))}
+      </div>
+
+      <style jsx>{`
+        .postCard {
+          position: relative;
+          display: flex;
+          flex-direction: column;
+          width: 100%;
+          height: 100%;
+          text-align: left;
+          background: white;
+          border-radius: 12px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          overflow: hidden;
+          transition: transform 0.2s, box-shadow 0.2s;
+        }
+        .postCard:hover {
+          transform: translateY(-5px);
+          box-shadow: 0 8px 12px rgba(0, 0, 0, 0.15);
+        }
+        .postCard:has(.cardOpen:focus-visible),
+        .postCard.active:has(.cardOpen:focus) {
+          outline: 3px solid #f1c40f;
+          outline-offset: 2px;
+        }
+        .cardOpen {
+          position: absolute;
+          inset: 0;
+          z-index: 1;
+          width: 100%;
+          border: none;
+          padding: 0;
+          background: none;
+          cursor: pointer;
+        }
+        .cardOpen:focus {
+          outline: none;
+        }
+        .postHeader {
+          padding: 20px;
+          border-bottom: 2px solid #f0f0f0;
+          flex-shrink: 0;
+        }
+        .postTitleRow {
+          display: flex;
+          align-items: flex-start;
+          gap: 8px;
+        }
+        .unreadDot {
+          flex-shrink: 0;
+          width: 8px;
+          height: 8px;
+          margin-top: 9px;
+          border-radius: 50%;
+          background: #667eea;
+        }
+        .mark {
+          flex-shrink: 0;
+          font-size: 16px;
+          line-height: 25px;
+        }
+        .mark.starred {
+          color: #f1c40f;
+        }
+        .postTitle {
+          flex: 1;
+          min-width: 0;
+          font-size: 18px;
+          font-weight: 600;
+          color: #2c3e50;
+          margin-bottom: 8px;
+          line-height: 1.4;
+          display: -webkit-box;
+          -webkit-line-clamp: 2;
+          -webkit-box-orient: vertical;
+          overflow: hidden;
+        }
+        .postCard.read .postTitle {
+          font-weight: 500;
+          color: #5d6d7e;
+        }
+        .postAuthor {
+          color: #7f8c8d;
+          font-size: 14px;
+          margin-bottom: 5px;
+        }
+        .postAuthor :global(.authorLink) {
+          position: relative;
+          z-index: 2;
+          color: inherit;
+          text-decoration: none;
+        }
+        .postAuthor :global(.authorLink:hover) {
+          color: #667eea;
+          text-decoration: underline;
+        }
+        .postDate {
+          color: #95a5a6;
+          font-size: 12px;
+        }
+        .postSource {
+          color: #95a5a6;
+          font-size: 12px;
+          margin-top: 3px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .postEngagement {
+          display: flex;
+          gap: 12px;
+          margin-top: 8px;
+          color: #7f8c8d;
+          font-size: 12px;
+        }
+        .reviewBadge {
+          margin-left: auto;
+          padding: 1px 8px;
+          border-radius: 10px;
+          background: #ecf0f1;
+          color: #7f8c8d;
+          white-space: nowrap;
+        }
+        .reviewBadge.accepted {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+        .reviewBadge.needs_revision {
+          background: #fff5e6;
+          color: #d68910;
+        }
+        .reviewBadge.rejected {
+          background: #fdecea;
+          color: #c0392b;
+        }
+        .postBody {
+          flex: 1;
+          min-height: 0;
+          padding: 20px;
+          overflow: hidden;
+          color: #555;
+          font-size: 14px;
+          line-height: 1.6;
+        }
+        .postBody mark {
+          background: #fff3b0;
+          color: inherit;
+          border-radius: 2px;
+          padding: 0 1px;
+        }
+        .postTags {
+          flex-shrink: 0;
+          max-height: 84px;
+          overflow: hidden;
+          padding: 15px 20px;
+          background: #f8f9fa;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+        .tag {
+          background: #e8f4f8;
+          color: #2980b9;
+          padding: 4px 10px;
+          border-radius: 12px;
+          font-size: 11px;
+          font-weight: 500;
+        }
+        .tag.model {
+          background: #fff5e6;
+          color: #f39c12;
+        }
+        .tag.topic {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+export default memo(PostCard);
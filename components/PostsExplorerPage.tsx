@@ -0,0 +1,1419 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import AnalyticsPanel from "@/components/AnalyticsPanel";
+import CommentThread from "@/components/CommentThread";
+import DatasetUpload from "@/components/DatasetUpload";
+import DuplicateNotice from "@/components/DuplicateNotice";
+import DuplicatesPanel from "@/components/DuplicatesPanel";
+import EdContent from "@/components/EdContent";
+import ExportMenu from "@/components/ExportMenu";
+import LabelComparison from "@/components/LabelComparison";
+import LoadReportPanel from "@/components/LoadReportPanel";
+import PersonalDataMenu from "@/components/PersonalDataMenu";
+import PersonalPanel from "@/components/PersonalPanel";
+import PostCard from "@/components/PostCard";
+import RelatedPosts from "@/components/RelatedPosts";
+import ReviewMenu from "@/components/ReviewMenu";
+import ReviewPanel from "@/components/ReviewPanel";
+import TagEditor from "@/components/TagEditor";
+import VirtualGrid from "@/components/VirtualGrid";
+import { authorHref } from "@/lib/authors";
+import { IndexPair, duplicateReport } from "@/lib/duplicates";
+import { startDuplicateScan } from "@/lib/duplicatesWorker";
+import {
+  ActiveFilters,
+  ClientFilterData,
+  cycleTag,
+  emptyFilters,
+  filterPosts,
+  filtersFromSearchParams,
+  filtersQueryString,
+  tagChipCounts,
+  tagState,
+} from "@/lib/filters";
+import {
+  LabelSource,
+  Post,
+  TAG_KINDS,
+  TagKind,
+  buildUserNames,
+  normalizeTagLabel,
+  postTags,
+  safeDate,
+} from "@/lib/posts";
+import { LoadReport, emptyLoadMessage } from "@/lib/ingest";
+import { IngestJob, StreamUpdate, formatBytes, streamDatasets } from "@/lib/ingestWorker";
+import { MergeSummary } from "@/lib/merge";
+import {
+  PERSONAL_FILTERS,
+  PersonalFilter,
+  markRead,
+  matchesPersonalFilters,
+  personalEntry,
+  personalStore,
+} from "@/lib/personal";
+import {
+  REVIEW_STATUSES,
+  ReviewStatus,
+  matchesReviewFilters,
+  reviewModeStore,
+  reviewStatus,
+  reviewStore,
+} from "@/lib/review";
+import { buildSearchIndex } from "@/lib/search";
+import { pageTitle } from "@/lib/site";
+import { buildSimilarityIndex } from "@/lib/similarity";
+import { SORT_OPTIONS, SortKey } from "@/lib/sort";
+import { applyTagOverrides, tagOverrideStore } from "@/lib/tagOverrides";
+import { useDebouncedValue } from "@/lib/useDebouncedValue";
+import { useFocusTrap } from "@/lib/useFocusTrap";
+import { useLocalStore } from "@/lib/useLocalStore";
+
+const TAG_GROUP_LABELS: Record<TagKind, string> = {
+  models: "Model Tags",
+  topics: "Topic Tags",
+  assignments: "Assignment Tags",
+};
+
+const TAG_STATE_LABELS = { include: "included", exclude: "excluded", neutral: "not filtered" } as const;
+
+// Grid cells have a fixed size so the grid can be virtualized
+const CARD_MIN_WIDTH = 350;
+const CARD_HEIGHT = 400;
+const CARD_GAP = 20;
+// Pause in typing before text filters are applied
+const TEXT_FILTER_DELAY = 250;
+
+function isTextField(el: EventTarget | null) {
+  return el instanceof HTMLElement && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName));
+}
+
+/** Position of `post` in `list`, matching by thread_id too since tag corrections replace post objects. */
+function postIndex(list: Post[], post: Post) {
+  return list.findIndex((p) => p === post || (post.thread_id != null && p.thread_id === post.thread_id));
+}
+
+function threadIdFromPath(pathname: string | null): number | null {
+  const m = pathname?.match(/^\/posts\/(\d+)\/?$/);
+  return m ? Number(m[1]) : null;
+}
+
+export default function PostsExplorerPage() {
+  // Posts as loaded; `allPosts` below has the tag corrections applied
+  const [loadedPosts, setLoadedPosts] = useState<Post[]>([]);
+  const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
+  // thread_id -> file the loaded copy of each post came from
+  const [postSources, setPostSources] = useState<Map<number, string>>(() => new Map());
+
+  // The open post lives in the URL (/posts/[thread_id]); records without a thread_id fall back to local state
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const routeThreadId = threadIdFromPath(pathname);
+  const [unroutedPost, setUnroutedPost] = useState<Post | null>(null);
+
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [statusText, setStatusText] = useState("Fetching data...");
+  // percent of bytes read, or null when the total size is unknown
+  const [progress, setProgress] = useState<number | null>(0);
+  const [loadReports, setLoadReports] = useState<LoadReport[]>([]);
+  const [mergeSummary, setMergeSummary] = useState<MergeSummary | null>(null);
+
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [insightsView, setInsightsView] = useState<"analytics" | "labels" | "duplicates" | null>("analytics");
+
+  const [filters, setFilters] = useState<ActiveFilters>(() =>
+    filtersFromSearchParams(new URLSearchParams(searchParams.toString()))
+  );
+  // Tag toggles get their own history entry; typing in the text fields just replaces the current one
+  const pushFilterChange = useRef(false);
+
+  // The running ingestion job, for the Cancel button
+  const ingestJob = useRef<IngestJob | null>(null);
+
+  // Posts are shown as soon as the worker delivers them, while the rest of the input loads
+  const showStreamUpdate = useCallback((u: StreamUpdate) => {
+    const { bytes, totalBytes, records } = u.progress;
+    setLoadedPosts(u.posts);
+    setPostSources(u.sources);
+    if (u.posts.length > 0) {
+      setFiltersOpen(true);
+      setStatsOpen(true);
+    }
+    setProgress(totalBytes ? Math.min(100, (100 * bytes) / totalBytes) : null);
+    setStatusText(
+      `${u.source}${u.fileCount > 1 ? ` (file ${u.fileIndex + 1} of ${u.fileCount})` : ""}: ` +
+        `${formatBytes(bytes)}${totalBytes ? ` of ${formatBytes(totalBytes)}` : ""} · ` +
+        `${records.toLocaleString()} records`
+    );
+  }, []);
+
+  const trackJob = useCallback((job: IngestJob | null) => {
+    ingestJob.current = job;
+  }, []);
+
+  // Auto-load data on mount: stream /posts.jsonl from public/
+  useEffect(() => {
+    let active = true;
+
+    async function load() {
+      try {
+        setLoading(true);
+        setLoadError(null);
+        setStatusText("Fetching posts.jsonl...");
+
+        const { merged, reports, cancelled } = await streamDatasets(
+          [{ input: { url: "/posts.jsonl" }, source: "posts.jsonl" }],
+          [],
+          new Map(),
+          (u) => active && showStreamUpdate(u),
+          trackJob
+        );
+        if (!active) return;
+
+        setLoadReports(reports);
+        setLoadedPosts(merged.posts);
+        setPostSources(merged.sources);
+        if (merged.posts.length === 0) {
+          throw new Error(cancelled ? "Loading was cancelled before any posts arrived" : emptyLoadMessage(reports[0]));
+        }
+        setLoading(false);
+      } catch (e) {
+        if (!active) return;
+        setLoadError(e instanceof Error ? e.message : String(e));
+        setLoading(false);
+        setProgress(0);
+        setStatusText("Error loading data.");
+      }
+    }
+
+    load();
+    return () => {
+      active = false;
+      ingestJob.current?.cancel();
+    };
+  }, [showStreamUpdate, trackJob]);
+
+  // Hand-corrected tags, laid over every load so they come back when the same dataset is reloaded
+  const tagOverrides = useLocalStore(tagOverrideStore);
+  const allPosts = useMemo(() => applyTagOverrides(loadedPosts, tagOverrides), [loadedPosts, tagOverrides]);
+
+  // Build available tags from allPosts under the active label source. Selected tags are kept
+  // even if the source has none of them, so their chips can still be switched off.
+  const labelSource = filters.labels;
+  const sourceTags = useMemo(() => {
+    const universe = {} as Record<TagKind, Set<string>>;
+    for (const kind of TAG_KINDS) {
+      universe[kind] = new Set();
+      for (const post of allPosts) postTags(post, kind, labelSource).forEach((t) => universe[kind].add(t));
+    }
+    return universe;
+  }, [allPosts, labelSource]);
+
+  const tagUniverse = useMemo(() => {
+    const universe = {} as Record<TagKind, string[]>;
+    for (const kind of TAG_KINDS) {
+      const tags = new Set([...sourceTags[kind], ...filters[kind].include, ...filters[kind].exclude]);
+      universe[kind] = Array.from(tags).sort();
+    }
+    return universe;
+  }, [sourceTags, filters]);
+
+  const userNames = useMemo(() => buildUserNames(allPosts), [allPosts]);
+  const multipleSources = useMemo(() => new Set(postSources.values()).size > 1, [postSources]);
+
+  const selectedPost = useMemo(() => {
+    if (unroutedPost) return unroutedPost;
+    if (routeThreadId === null) return null;
+    return allPosts.find((p) => p.thread_id === routeThreadId) ?? null;
+  }, [unroutedPost, routeThreadId, allPosts]);
+
+  // Mirror filters into the query string
+  useEffect(() => {
+    const qs = filtersQueryString(filters);
+    if (qs === window.location.search) return;
+    const url = `${window.location.pathname}${qs}`;
+    if (pushFilterChange.current) window.history.pushState(null, "", url);
+    else window.history.replaceState(null, "", url);
+    pushFilterChange.current = false;
+  }, [filters]);
+
+  // Back/forward: adopt whatever filters the URL now holds. Reads window.location rather than
+  // searchParams, which can lag behind our own replaceState calls while typing.
+  useEffect(() => {
+    const fromUrl = filtersFromSearchParams(new URLSearchParams(window.location.search));
+    setFilters((prev) => (filtersQueryString(prev) === filtersQueryString(fromUrl) ? prev : fromUrl));
+  }, [searchParams]);
+
+  // Stars, read marks and notes saved in this browser
+  const personal = useLocalStore(personalStore);
+  // Staff grades, and whether the grading controls are shown
+  const review = useLocalStore(reviewStore);
+  const reviewMode = useLocalStore(reviewModeStore);
+
+  const selectedThreadId = selectedPost?.thread_id;
+  useEffect(() => {
+    if (selectedThreadId != null) markRead(selectedThreadId);
+  }, [selectedThreadId]);
+
+  useEffect(() => {
+    document.title = pageTitle(selectedPost ? (selectedPost.title ?? "Untitled") : undefined);
+  }, [selectedPost]);
+
+  // Stepping through posts inside the modal replaces the history entry, so Back still closes it
+  const showPost = useCallback((post: Post, replace: boolean) => {
+    if (post.thread_id == null) {
+      setUnroutedPost(post);
+      return;
+    }
+    setUnroutedPost(null);
+    const url = `/posts/${post.thread_id}${window.location.search}`;
+    if (replace) window.history.replaceState(null, "", url);
+    else window.history.pushState(null, "", url);
+  }, []);
+
+  const openPost = useCallback((post: Post) => showPost(post, false), [showPost]);
+
+  const closePost = useCallback(() => {
+    setUnroutedPost(null);
+    if (routeThreadId !== null) window.history.pushState(null, "", `/${window.location.search}`);
+  }, [routeThreadId]);
+
+  // Focus stays inside the open modal and returns to the card that opened it on close
+  const modalRef = useRef<HTMLDivElement | null>(null);
+  useFocusTrap(modalRef, selectedPost !== null);
+
+  // Start each post from the top, including when moving between posts without closing the modal,
+  // but stay put when a tag correction swaps in a new copy of the same post
+  const modalBodyRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    modalBodyRef.current?.scrollTo({ top: 0 });
+  }, [selectedThreadId, unroutedPost]);
+
+  // Only built once a post is opened, and then kept until the posts or label source change
+  const modalOpen = selectedPost !== null;
+  const similarityIndex = useMemo(
+    () => (modalOpen ? buildSimilarityIndex(allPosts, labelSource) : null),
+    [allPosts, labelSource, modalOpen]
+  );
+
+  // Indexing costs about 0.3 ms a post, so it is built once loading has finished rather than after
+  // every streamed batch; until then the full-text query is held back. Tags are not indexed, so
+  // corrections don't rebuild it either. It lines up with allPosts by position.
+  const searchIndex = useMemo(() => buildSearchIndex(loading ? [] : loadedPosts), [loadedPosts, loading]);
+  const docIdByPost = useMemo(() => new Map(allPosts.map((p, i) => [p, i])), [allPosts]);
+
+  // The text inputs update `filters` on every keystroke; filtering waits until typing pauses.
+  const query = useDebouncedValue(filters.query, TEXT_FILTER_DELAY);
+  const title = useDebouncedValue(filters.title, TEXT_FILTER_DELAY);
+  const author = useDebouncedValue(filters.author, TEXT_FILTER_DELAY);
+  const appliedFilters = useMemo(
+    (): ActiveFilters => ({
+      query: loading ? "" : query,
+      title,
+      author,
+      models: filters.models,
+      topics: filters.topics,
+      assignments: filters.assignments,
+      labels: filters.labels,
+      mine: filters.mine,
+      dupes: filters.dupes,
+      review: filters.review,
+      sort: filters.sort,
+      sortDir: filters.sortDir,
+    }),
+    [
+      loading,
+      query,
+      title,
+      author,
+      filters.models,
+      filters.topics,
+      filters.assignments,
+      filters.labels,
+      filters.mine,
+      filters.dupes,
+      filters.review,
+      filters.sort,
+      filters.sortDir,
+    ]
+  );
+
+  // Scanned in a worker once loading has finished rather than after every streamed batch. The
+  // pairs are positions, which stay valid through later merges (existing posts keep their place)
+  // and line up with allPosts, so tag corrections need no rescan.
+  const [duplicatePairs, setDuplicatePairs] = useState<IndexPair[]>([]);
+  useEffect(() => {
+    if (loading) return;
+    const scan = startDuplicateScan(loadedPosts);
+    scan.done.then(setDuplicatePairs, () => setDuplicatePairs([]));
+    return () => scan.cancel();
+  }, [loadedPosts, loading]);
+  const duplicates = useMemo(() => duplicateReport(allPosts, duplicatePairs), [allPosts, duplicatePairs]);
+
+  const selectedCluster = selectedPost ? duplicates.clusterOf.get(selectedPost) : undefined;
+
+  // A post as loaded, before any tag corrections. The JSONL export and the label comparison use
+  // these: records leave unchanged, and corrections are not the labeller's output.
+  const originalOf = useCallback(
+    (post: Post) => {
+      const docId = docIdByPost.get(post);
+      return docId !== undefined ? loadedPosts[docId] : undefined;
+    },
+    [docIdByPost, loadedPosts]
+  );
+  const selectedOriginal = selectedPost ? originalOf(selectedPost) : undefined;
+
+  const clientFilterData = useMemo(
+    (): ClientFilterData => ({ personal, review, duplicates: new Set(duplicates.clusterOf.keys()) }),
+    [personal, review, duplicates]
+  );
+
+  // Apply filters whenever filters, allPosts or the browser-side filter data change
+  useEffect(() => {
+    setFilteredPosts(filterPosts(allPosts, appliedFilters, searchIndex, clientFilterData));
+  }, [appliedFilters, allPosts, searchIndex, clientFilterData]);
+
+  const filteredOriginals = useMemo(
+    () => filteredPosts.map((post) => originalOf(post) ?? post),
+    [filteredPosts, originalOf]
+  );
+
+  const chipCounts = useMemo(
+    () => tagChipCounts(allPosts, appliedFilters, searchIndex, clientFilterData),
+    [allPosts, appliedFilters, searchIndex, clientFilterData]
+  );
+
+  const personalCounts = useMemo(() => {
+    const counts = {} as Record<PersonalFilter, number>;
+    for (const f of Object.keys(PERSONAL_FILTERS) as PersonalFilter[]) {
+      const only = new Set([f]);
+      counts[f] = allPosts.filter((post) => matchesPersonalFilters(post, only, personal)).length;
+    }
+    return counts;
+  }, [allPosts, personal]);
+
+  const reviewCounts = useMemo(() => {
+    const counts = {} as Record<ReviewStatus, number>;
+    for (const s of Object.keys(REVIEW_STATUSES) as ReviewStatus[]) {
+      const only = new Set([s]);
+      counts[s] = allPosts.filter((post) => matchesReviewFilters(post, only, review)).length;
+    }
+    return counts;
+  }, [allPosts, review]);
+
+  // Keyboard cursor over the grid (j/k), and the index the grid last scrolled to for it
+  const [activePost, setActivePost] = useState<Post | null>(null);
+  const [scrollTarget, setScrollTarget] = useState<number>();
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const activeIndex = activePost ? filteredPosts.indexOf(activePost) : -1;
+
+  // The list ←/→ step through. It is taken when the modal opens and kept while it stays open, so
+  // posts that leave the filter as they are viewed (read under "Unread", or re-graded under a
+  // review status) don't end the walk. Retaken if the shown post isn't in it, e.g. after a deep
+  // link opened the modal before the posts arrived.
+  const [browseList, setBrowseList] = useState<Post[] | null>(null);
+  if (!selectedPost) {
+    if (browseList !== null) setBrowseList(null);
+  } else if (
+    browseList !== filteredPosts &&
+    (browseList === null || postIndex(browseList, selectedPost) < 0) &&
+    postIndex(filteredPosts, selectedPost) >= 0
+  ) {
+    setBrowseList(filteredPosts);
+  }
+  const browsePosts = browseList ?? filteredPosts;
+  const selectedIndex = selectedPost ? postIndex(browsePosts, selectedPost) : -1;
+
+  useEffect(() => {
+    function moveCursor(delta: number) {
+      if (filteredPosts.length === 0) return;
+      const i = activeIndex < 0 ? 0 : Math.min(filteredPosts.length - 1, Math.max(0, activeIndex + delta));
+      // Let the card take focus from whatever button had it
+      if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+      setActivePost(filteredPosts[i]);
+      setScrollTarget(i);
+    }
+
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      const typing = isTextField(e.target);
+
+      if (selectedPost) {
+        // Escape first leaves a field in the modal (notes, tag editor); the next one closes it
+        if (e.key === "Escape" && typing) (e.target as HTMLElement).blur();
+        else if (e.key === "Escape") closePost();
+        else if (typing) return;
+        else if (e.key === "ArrowLeft" && selectedIndex > 0) showPost(browsePosts[selectedIndex - 1], true);
+        else if (e.key === "ArrowRight" && selectedIndex >= 0 && selectedIndex < browsePosts.length - 1) {
+          showPost(browsePosts[selectedIndex + 1], true);
+        } else return;
+        e.preventDefault();
+        return;
+      }
+
+      if (typing) {
+        if (e.key === "Escape") (e.target as HTMLElement).blur();
+        return;
+      }
+      if (e.key === "/") {
+        setFiltersOpen(true);
+        // the filter panel may only become visible on the next render
+        requestAnimationFrame(() => searchInputRef.current?.focus());
+      } else if (e.key === "j") moveCursor(1);
+      else if (e.key === "k") moveCursor(-1);
+      else if (e.key === "Enter" && activePost && !(e.target instanceof HTMLButtonElement || e.target instanceof HTMLAnchorElement)) {
+        openPost(activePost);
+      } else return;
+      e.preventDefault();
+    }
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [filteredPosts, browsePosts, activePost, activeIndex, selectedPost, selectedIndex, closePost, showPost, openPost]);
+
+  function toggleDuplicatesFilter() {
+    pushFilterChange.current = true;
+    setFilters((prev) => ({ ...prev, dupes: !prev.dupes }));
+  }
+
+  function togglePersonalFilter(f: PersonalFilter) {
+    pushFilterChange.current = true;
+    setFilters((prev) => {
+      const mine = new Set(prev.mine);
+      if (mine.has(f)) mine.delete(f);
+      else mine.add(f);
+      return { ...prev, mine };
+    });
+  }
+
+  function toggleReviewFilter(s: ReviewStatus) {
+    pushFilterChange.current = true;
+    setFilters((prev) => {
+      const statuses = new Set(prev.review);
+      if (statuses.has(s)) statuses.delete(s);
+      else statuses.add(s);
+      return { ...prev, review: statuses };
+    });
+  }
+
+  function cycleTagFilter(kind: TagKind, value: string) {
+    pushFilterChange.current = true;
+    setFilters((prev) => ({ ...prev, [kind]: cycleTag(prev[kind], value) }));
+  }
+
+  function toggleTagMode(kind: TagKind) {
+    pushFilterChange.current = true;
+    setFilters((prev) => ({ ...prev, [kind]: { ...prev[kind], mode: prev[kind].mode === "any" ? "all" : "any" } }));
+  }
+
+  function clearFilters() {
+    pushFilterChange.current = true;
+    setFilters((prev) => ({ ...emptyFilters(), sort: prev.sort, sortDir: prev.sortDir }));
+  }
+
+  function setLabelSource(labels: LabelSource) {
+    pushFilterChange.current = true;
+    setFilters((prev) => ({ ...prev, labels }));
+  }
+
+  function setSort(sort: SortKey) {
+    pushFilterChange.current = true;
+    setFilters((prev) => ({ ...prev, sort }));
+  }
+
+  function toggleSortDir() {
+    pushFilterChange.current = true;
+    setFilters((prev) => ({ ...prev, sortDir: prev.sortDir === "desc" ? "asc" : "desc" }));
+  }
+
+  // Uploaded files are merged into whatever is already loaded rather than replacing it
+  async function handleFileUploads(files: File[]) {
+    try {
+      setLoadError(null);
+      setLoading(true);
+      setMergeSummary(null);
+
+      const { merged, reports, cancelled } = await streamDatasets(
+        files.map((file) => ({ input: { file }, source: file.name })),
+        loadedPosts,
+        postSources,
+        showStreamUpdate,
+        trackJob
+      );
+      setLoadReports(reports);
+      setLoadedPosts(merged.posts);
+      setPostSources(merged.sources);
+      if (!cancelled && reports.every((r) => r.loaded === 0)) {
+        throw new Error(reports.map(emptyLoadMessage).join("; "));
+      }
+      setMergeSummary(merged.summary);
+      setLoading(false);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : String(e));
+      setLoading(false);
+      setProgress(0);
+    }
+  }
+
+  return (
+    <div className="page">
+      <div className="container">
+        <div className="header">
+          <div className="titleRow">
+            <h1>📚 Posts Explorer</h1>
+            <Link href="/gallery" className="navLink">
+              🖼️ Attachment Gallery
+            </Link>
+          </div>
+
+          {loading
+            ? null
+            : loadReports.map((report, i) => (
+                <LoadReportPanel
+                  key={`${report.source}-${i}`}
+                  report={report}
+                  onDismiss={() => setLoadReports((prev) => prev.filter((r) => r !== report))}
+                />
+              ))}
+
+          {loading || loadError ? (
+            <div className="uploadSection">
+              <p className="muted" style={{ marginBottom: 10 }}>
+                {loadError ? "⚠️ Could not load posts" : "Loading posts data..."}
+              </p>
+
+              {loadError ? (
+                <p className="mutedSmall">
+                  {loadError}
+                  <br />
+                  Make sure <code>posts.jsonl</code> is in <code>public/</code> (served at <code>/posts.jsonl</code>), or upload
+                  manually below.
+                </p>
+              ) : (
+                <div style={{ marginTop: 15 }}>
+                  <div className="progressOuter">
+                    {progress === null ? (
+                      <div className="progressInner indeterminate" />
+                    ) : (
+                      <div className="progressInner" style={{ width: `${progress}%` }} />
+                    )}
+                  </div>
+                  <div className="progressStatus">
+                    <p className="mutedSmall">{statusText}</p>
+                    <button type="button" className="cancelBtn" onClick={() => ingestJob.current?.cancel()}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : null}
+
+          {loading ? null : (
+            <DatasetUpload
+              onFiles={handleFileUploads}
+              summary={mergeSummary}
+              onDismissSummary={() => setMergeSummary(null)}
+            />
+          )}
+        </div>
+
+        <div className={`filters ${filtersOpen ? "active" : ""}`}>
+          <h2 style={{ marginBottom: 20, color: "#2c3e50" }}>🔍 Filters</h2>
+
+          <div className="filterGroup">
+            <label htmlFor="searchQuery">Search Posts</label>
+            <input
+              id="searchQuery"
+              ref={searchInputRef}
+              value={filters.query}
+              onChange={(e) => setFilters((p) => ({ ...p, query: e.target.value }))}
+              placeholder="Search post text, comments and attachment names..."
+              aria-describedby="shortcutHint"
+            />
+            <p id="shortcutHint" className="mutedSmall shortcutHint">
+              Keyboard: <kbd>/</kbd> search · <kbd>j</kbd>/<kbd>k</kbd> next/previous post · <kbd>Enter</kbd> open ·{" "}
+              <kbd>←</kbd>/<kbd>→</kbd> step through open posts · <kbd>Esc</kbd> close
+            </p>
+          </div>
+
+          <div className="filterGrid">
+            <div className="filterGroup">
+              <label htmlFor="searchTitle">Search Title</label>
+              <input
+                id="searchTitle"
+                value={filters.title}
+                onChange={(e) => setFilters((p) => ({ ...p, title: e.target.value }))}
+                placeholder="Search by title..."
+              />
+            </div>
+
+            <div className="filterGroup">
+              <label htmlFor="searchAuthor">Search Author</label>
+              <input
+                id="searchAuthor"
+                value={filters.author}
+                onChange={(e) => setFilters((p) => ({ ...p, author: e.target.value }))}
+                placeholder="Search by author name..."
+              />
+            </div>
+
+            <div className="filterGroup">
+              <label htmlFor="labelSource">Label Source</label>
+              <select
+                id="labelSource"
+                value={filters.labels}
+                onChange={(e) => setLabelSource(e.target.value as LabelSource)}
+              >
+                <option value="llm">LLM labels (cluster_metadata)</option>
+                <option value="heuristic">Heuristic labels (cluster_metadata_heuristic)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="filterGroup">
+            <label id="tagGroup-mine">My Posts</label>
+            <div className="tagFilters" role="group" aria-labelledby="tagGroup-mine">
+              {(Object.keys(PERSONAL_FILTERS) as PersonalFilter[]).map((f) => (
+                <button
+                  type="button"
+                  key={f}
+                  className={`tagFilter ${filters.mine.has(f) ? "active" : ""}`}
+                  aria-pressed={filters.mine.has(f)}
+                  onClick={() => togglePersonalFilter(f)}
+                >
+                  {PERSONAL_FILTERS[f]}
+                  <span className="chipCount">{personalCounts[f]}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="filterGroup">
+            <label id="tagGroup-review">Review</label>
+            <div className="tagFilters" role="group" aria-labelledby="tagGroup-review">
+              <button
+                type="button"
+                className={`tagFilter ${filters.dupes ? "active" : ""}`}
+                aria-pressed={filters.dupes}
+                onClick={toggleDuplicatesFilter}
+                title="Posts whose text and attachments nearly match another post"
+              >
+                🧬 Show suspected duplicates
+                <span className="chipCount">{duplicates.clusterOf.size}</span>
+              </button>
+              {/* Kept visible outside review mode while a status filter is still applied */}
+              {reviewMode || filters.review.size > 0
+                ? (Object.keys(REVIEW_STATUSES) as ReviewStatus[]).map((s) => (
+                    <button
+                      type="button"
+                      key={s}
+                      className={`tagFilter ${filters.review.has(s) ? "active" : ""}`}
+                      aria-pressed={filters.review.has(s)}
+                      onClick={() => toggleReviewFilter(s)}
+                    >
+                      {REVIEW_STATUSES[s]}
+                      <span className="chipCount">{reviewCounts[s]}</span>
+                    </button>
+                  ))
+                : null}
+            </div>
+          </div>
+
+          {TAG_KINDS.map((kind) => (
+            <div className="filterGroup" key={kind}>
+              <div className="tagGroupHeader">
+                <label id={`tagGroup-${kind}`}>{TAG_GROUP_LABELS[kind]}</label>
+                <button
+                  type="button"
+                  className="modeToggle"
+                  onClick={() => toggleTagMode(kind)}
+                  title="Switch between matching any or all of the included tags"
+                  aria-label={`${TAG_GROUP_LABELS[kind]}: ${
+                    filters[kind].mode === "any" ? "match any included tag" : "match all included tags"
+                  }. Switch mode.`}
+                >
+                  {filters[kind].mode === "any" ? "Match any (OR)" : "Match all (AND)"}
+                </button>
+              </div>
+              <div
+                className="tagFilters"
+                role="group"
+                aria-labelledby={`tagGroup-${kind}`}
+                aria-describedby="tagChipHelp"
+              >
+                {tagUniverse[kind].length === 0 ? (
+                  <span className="mutedSmall">No tags available</span>
+                ) : (
+                  tagUniverse[kind].map((tag) => {
+                    const state = tagState(filters[kind], tag);
+                    const count = chipCounts[kind][tag] ?? 0;
+                    return (
+                      <button
+                        type="button"
+                        key={`${kind}-${tag}`}
+                        className={`tagFilter ${state === "include" ? "active" : ""} ${state === "exclude" ? "excluded" : ""}`}
+                        onClick={() => cycleTagFilter(kind, tag)}
+                        disabled={state === "neutral" && count === 0}
+                        title={`${normalizeTagLabel(tag)}: ${TAG_STATE_LABELS[state]}. Click to cycle include / exclude / off.`}
+                        aria-label={`${normalizeTagLabel(tag)}, ${count} posts, ${TAG_STATE_LABELS[state]}`}
+                      >
+                        {state === "exclude" ? "− " : state === "include" ? "+ " : ""}
+                        {normalizeTagLabel(tag)}
+                        <span className="chipCount">{count}</span>
+                      </button>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          ))}
+
+          <p id="tagChipHelp" className="visuallyHidden">
+            Each tag cycles through included, excluded and not filtered.
+          </p>
+
+          <button className="clearFilters" onClick={clearFilters}>
+            Clear All Filters
+          </button>
+        </div>
+
+        <div className={`stats ${statsOpen ? "active" : ""}`}>
+          <div className="statsContent">
+            <div className="statItem">
+              Showing <strong>{filteredPosts.length}</strong> of <strong>{allPosts.length}</strong> posts
+            </div>
+
+            <div className="sortControls">
+              <label htmlFor="sortKey">Sort by</label>
+              <select id="sortKey" value={filters.sort} onChange={(e) => setSort(e.target.value as SortKey)}>
+                {(Object.keys(SORT_OPTIONS) as SortKey[]).map((key) => (
+                  <option key={key} value={key}>
+                    {SORT_OPTIONS[key].label}
+                  </option>
+                ))}
+              </select>
+              <button type="button" className="sortDir" onClick={toggleSortDir}>
+                {filters.sortDir === "desc" ? "↓ " : "↑ "}
+                {SORT_OPTIONS[filters.sort].dirLabels[filters.sortDir === "desc" ? 0 : 1]}
+              </button>
+              <button
+                type="button"
+                className={`sortDir ${insightsView === "analytics" ? "active" : ""}`}
+                onClick={() => setInsightsView((v) => (v === "analytics" ? null : "analytics"))}
+                aria-expanded={insightsView === "analytics"}
+              >
+                📊 Analytics
+              </button>
+              <button
+                type="button"
+                className={`sortDir ${insightsView === "labels" ? "active" : ""}`}
+                onClick={() => setInsightsView((v) => (v === "labels" ? null : "labels"))}
+                aria-expanded={insightsView === "labels"}
+              >
+                ⚖️ Label comparison
+              </button>
+              <button
+                type="button"
+                className={`sortDir ${insightsView === "duplicates" ? "active" : ""}`}
+                onClick={() => setInsightsView((v) => (v === "duplicates" ? null : "duplicates"))}
+                aria-expanded={insightsView === "duplicates"}
+              >
+                🧬 Duplicates ({duplicates.clusters.length})
+              </button>
+              <ExportMenu posts={filteredPosts} originals={filteredOriginals} labelSource={filters.labels} />
+              <PersonalDataMenu />
+              <button
+                type="button"
+                className={`sortDir ${reviewMode ? "active" : ""}`}
+                aria-pressed={reviewMode}
+                onClick={() => reviewModeStore.set((on) => !on)}
+                title="Show status, rubric scores and comments for grading"
+              >
+                🎓 Review mode
+              </button>
+              {reviewMode ? <ReviewMenu posts={allPosts} /> : null}
+            </div>
+          </div>
+
+          {insightsView === "analytics" ? <AnalyticsPanel posts={filteredPosts} labelSource={filters.labels} /> : null}
+          {insightsView === "labels" ? <LabelComparison posts={filteredOriginals} onOpenPost={openPost} /> : null}
+          {insightsView === "duplicates" ? <DuplicatesPanel report={duplicates} onOpenPost={openPost} /> : null}
+        </div>
+
+        {filteredPosts.length === 0 ? (
+          <div className="noResults">No posts match your filters. Try adjusting your search criteria.</div>
+        ) : (
+          <VirtualGrid
+            items={filteredPosts}
+            itemKey={(post, i) => post.thread_id ?? `index-${i}`}
+            minColumnWidth={CARD_MIN_WIDTH}
+            rowHeight={CARD_HEIGHT}
+            gap={CARD_GAP}
+            scrollToIndex={scrollTarget}
+            renderItem={(post) => {
+              const docId = docIdByPost.get(post);
+              return (
+                <PostCard
+                  post={post}
+                  labelSource={appliedFilters.labels}
+                  query={appliedFilters.query}
+                  searchDoc={docId !== undefined ? searchIndex.docs[docId] : undefined}
+                  source={multipleSources && post.thread_id != null ? postSources.get(post.thread_id) : undefined}
+                  personal={personalEntry(personal, post)}
+                  review={reviewMode ? reviewStatus(review, post) : undefined}
+                  active={post === activePost}
+                  onOpen={openPost}
+                  onFocus={setActivePost}
+                />
+              );
+            }}
+          />
+        )}
+      </div>
+
+      {/* Modal */}
+      <div
+        className={`modal ${selectedPost ? "active" : ""}`}
+        onClick={(e) => {
+          if ((e.target as HTMLElement).classList.contains("modal")) closePost();
+        }}
+      >
+        {selectedPost ? (
+          <div
+            className="modalContent"
+            ref={modalRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="modalTitle"
+            tabIndex={-1}
+          >
+            <button className="closeBtn" onClick={closePost} aria-label="Close post (Esc)">
+              ×
+            </button>
+
+            <div className="modalHeader">
+              {selectedIndex >= 0 ? (
+                <nav className="modalNav" aria-label="Browse filtered posts">
+                  <button
+                    type="button"
+                    onClick={() => showPost(browsePosts[selectedIndex - 1], true)}
+                    disabled={selectedIndex === 0}
+                    aria-label="Previous post (←)"
+                  >
+                    ‹ Previous
+                  </button>
+                  <span className="mutedSmall">
+                    {selectedIndex + 1} of {browsePosts.length}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => showPost(browsePosts[selectedIndex + 1], true)}
+                    disabled={selectedIndex === browsePosts.length - 1}
+                    aria-label="Next post (→)"
+                  >
+                    Next ›
+                  </button>
+                </nav>
+              ) : null}
+              <h2 className="modalTitle" id="modalTitle">
+                {selectedPost.title ?? "Untitled"}
+              </h2>
+              <div className="postAuthor">
+                👤{" "}
+                {selectedPost.author_user_id != null ? (
+                  <Link href={authorHref(selectedPost.author_user_id)} className="authorLink">
+                    {selectedPost.author_name ?? "Unknown Author"}
+                  </Link>
+                ) : (
+                  (selectedPost.author_name ?? "Unknown Author")
+                )}
+              </div>
+              <div className="postDate">
+                📅 {safeDate(selectedPost.created_at)?.toLocaleDateString() ?? "Unknown date"}
+              </div>
+              {selectedPost.thread_id != null && postSources.has(selectedPost.thread_id) ? (
+                <div className="postSource">📄 From {postSources.get(selectedPost.thread_id)}</div>
+              ) : null}
+            </div>
+
+            {selectedPost.thread_id != null ? (
+              <PersonalPanel key={selectedPost.thread_id} threadId={selectedPost.thread_id} />
+            ) : null}
+            {reviewMode && selectedPost.thread_id != null ? <ReviewPanel threadId={selectedPost.thread_id} /> : null}
+            {selectedPost.thread_id != null && selectedOriginal ? (
+              <TagEditor
+                key={selectedPost.thread_id}
+                threadId={selectedPost.thread_id}
+                post={selectedPost}
+                original={selectedOriginal}
+                posts={allPosts}
+                labelSource={labelSource}
+              />
+            ) : null}
+
+            <div className="modalBody" ref={modalBodyRef}>
+              {selectedCluster ? (
+                <DuplicateNotice
+                  key={selectedPost.thread_id ?? "unrouted"}
+                  post={selectedPost}
+                  cluster={selectedCluster}
+                  onOpenPost={openPost}
+                />
+              ) : null}
+              <EdContent
+                xml={selectedPost.raw?.content}
+                fallbackText={selectedPost.document ?? selectedPost.raw?.document}
+              />
+              <CommentThread post={selectedPost} userNames={userNames} />
+              {similarityIndex ? (
+                <RelatedPosts index={similarityIndex} post={selectedPost} onOpenPost={openPost} />
+              ) : null}
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      {/* Styles (ported from your HTML) */}
+      <style jsx>{`
+        * {
+          box-sizing: border-box;
+        }
+        .page {
+          font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          min-height: 100vh;
+          padding: 20px;
+        }
+        .container {
+          max-width: 1400px;
+          margin: 0 auto;
+        }
+        .header {
+          background: white;
+          padding: 30px;
+          border-radius: 12px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          margin-bottom: 20px;
+        }
+        h1 {
+          color: #2c3e50;
+          margin-bottom: 20px;
+        }
+        .titleRow {
+          display: flex;
+          justify-content: space-between;
+          align-items: baseline;
+          flex-wrap: wrap;
+          gap: 10px;
+        }
+        .titleRow :global(.navLink) {
+          color: #667eea;
+          text-decoration: none;
+          font-weight: 600;
+        }
+        .titleRow :global(.navLink:hover) {
+          text-decoration: underline;
+        }
+        .uploadSection {
+          background: #f8f9fa;
+          padding: 20px;
+          border-radius: 8px;
+          border: 2px dashed #667eea;
+          text-align: center;
+        }
+        .uploadBtn {
+          background: #667eea;
+          color: white;
+          padding: 12px 24px;
+          border: none;
+          border-radius: 6px;
+          cursor: pointer;
+          font-size: 16px;
+          font-weight: 600;
+          margin-top: 10px;
+        }
+        .uploadBtn:hover {
+          background: #5568d3;
+        }
+        .progressOuter {
+          width: 100%;
+          height: 4px;
+          background: #e0e0e0;
+          border-radius: 2px;
+          overflow: hidden;
+        }
+        .progressInner {
+          height: 100%;
+          background: #667eea;
+          transition: width 0.3s;
+        }
+        .progressInner.indeterminate {
+          width: 30%;
+          animation: progressSlide 1.2s ease-in-out infinite;
+        }
+        @keyframes progressSlide {
+          from {
+            transform: translateX(-100%);
+          }
+          to {
+            transform: translateX(340%);
+          }
+        }
+        .progressStatus {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 10px;
+          margin-top: 10px;
+        }
+        .cancelBtn {
+          flex-shrink: 0;
+          padding: 4px 12px;
+          border: 1px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          color: #c0392b;
+          font-size: 13px;
+          cursor: pointer;
+        }
+        .cancelBtn:hover {
+          border-color: #c0392b;
+        }
+        .muted {
+          color: #555;
+        }
+        .mutedSmall {
+          color: #888;
+          font-size: 14px;
+        }
+
+        .filters {
+          background: white;
+          padding: 25px;
+          border-radius: 12px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          margin-bottom: 20px;
+          display: none;
+        }
+        .filters.active {
+          display: block;
+        }
+        .filterGroup {
+          margin-bottom: 20px;
+        }
+        .shortcutHint {
+          margin-top: 6px;
+        }
+        .shortcutHint kbd {
+          display: inline-block;
+          padding: 0 5px;
+          border: 1px solid #ccc;
+          border-bottom-width: 2px;
+          border-radius: 4px;
+          background: #f8f9fa;
+          font-family: inherit;
+          font-size: 11px;
+        }
+        .visuallyHidden {
+          position: absolute;
+          width: 1px;
+          height: 1px;
+          overflow: hidden;
+          clip: rect(0 0 0 0);
+          white-space: nowrap;
+        }
+        .filterGroup label {
+          display: block;
+          font-weight: 600;
+          color: #2c3e50;
+          margin-bottom: 8px;
+        }
+        .filterGroup input {
+          width: 100%;
+          padding: 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+        }
+        .filterGroup select {
+          width: 100%;
+          padding: 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+          background: white;
+        }
+        .filterGroup input:focus,
+        .filterGroup select:focus {
+          outline: none;
+          border-color: #667eea;
+        }
+        .filterGrid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
+          gap: 15px;
+        }
+
+        .tagFilters {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+          margin-top: 10px;
+        }
+        .tagFilter {
+          background: #e8f4f8;
+          color: #2980b9;
+          padding: 6px 12px;
+          border-radius: 20px;
+          font-size: 13px;
+          cursor: pointer;
+          border: 2px solid transparent;
+          transition: all 0.2s;
+        }
+        .tagFilter:hover {
+          background: #d4e9f2;
+        }
+        .tagFilter.active {
+          background: #667eea;
+          color: white;
+          border-color: #5568d3;
+        }
+        .tagFilter.excluded {
+          background: #fdecea;
+          color: #c0392b;
+          border-color: #e74c3c;
+          text-decoration: line-through;
+        }
+        .tagFilter:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+        .chipCount {
+          display: inline-block;
+          margin-left: 6px;
+          padding: 0 6px;
+          border-radius: 8px;
+          background: rgba(0, 0, 0, 0.08);
+          font-size: 11px;
+          text-decoration: none;
+        }
+        .tagGroupHeader {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 8px;
+        }
+        .tagGroupHeader label {
+          margin-bottom: 0;
+        }
+        .modeToggle {
+          background: #f0f0f0;
+          color: #555;
+          border: none;
+          padding: 3px 10px;
+          border-radius: 10px;
+          font-size: 12px;
+          cursor: pointer;
+        }
+        .modeToggle:hover {
+          background: #e0e0e0;
+        }
+
+        .stats {
+          background: white;
+          padding: 15px 25px;
+          border-radius: 12px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          margin-bottom: 20px;
+          display: none;
+        }
+        .stats.active {
+          display: block;
+        }
+        .statsContent {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 15px;
+        }
+        .statItem {
+          font-size: 14px;
+          color: #555;
+        }
+        .sortControls {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 14px;
+          color: #555;
+        }
+        .sortControls select {
+          padding: 6px 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+          background: white;
+        }
+        .sortDir {
+          background: #e8f4f8;
+          color: #2980b9;
+          border: none;
+          padding: 7px 12px;
+          border-radius: 6px;
+          cursor: pointer;
+          font-size: 13px;
+          font-weight: 600;
+        }
+        .sortDir:hover {
+          background: #d4e9f2;
+        }
+        .sortDir.active {
+          background: #667eea;
+          color: white;
+        }
+        .statItem strong {
+          color: #667eea;
+          font-size: 18px;
+        }
+
+        .postAuthor {
+          color: #7f8c8d;
+          font-size: 14px;
+          margin-bottom: 5px;
+        }
+        .postAuthor :global(.authorLink) {
+          color: #667eea;
+          text-decoration: none;
+        }
+        .postAuthor :global(.authorLink:hover) {
+          text-decoration: underline;
+        }
+        .postDate {
+          color: #95a5a6;
+          font-size: 12px;
+        }
+        .postSource {
+          color: #95a5a6;
+          font-size: 12px;
+          margin-top: 3px;
+        }
+
+        .noResults {
+          text-align: center;
+          padding: 60px 20px;
+          color: white;
+          font-size: 18px;
+        }
+
+        .clearFilters {
+          background: #e74c3c;
+          color: white;
+          padding: 10px 20px;
+          border: none;
+          border-radius: 6px;
+          cursor: pointer;
+          font-weight: 600;
+          margin-top: 15px;
+        }
+        .clearFilters:hover {
+          background: #c0392b;
+        }
+
+        .modal {
+          display: none;
+          position: fixed;
+          top: 0;
+          left: 0;
+          right: 0;
+          bottom: 0;
+          background: rgba(0, 0, 0, 0.7);
+          z-index: 1000;
+          overflow-y: auto;
+        }
+        .modal.active {
+          display: flex;
+          justify-content: center;
+          align-items: start;
+          padding: 40px 20px;
+        }
+        .modalContent {
+          background: white;
+          border-radius: 12px;
+          max-width: 1000px;
+          width: 100%;
+          box-shadow: 0 10px 40px rgba(0, 0, 0, 0.3);
+          position: relative;
+          max-height: 90vh;
+          display: flex;
+          flex-direction: column;
+        }
+        .modalHeader {
+          padding: 30px;
+          border-bottom: 2px solid #f0f0f0;
+        }
+        .modalNav {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin: -10px 50px 12px 0;
+        }
+        .modalNav button {
+          padding: 4px 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          color: #2c3e50;
+          font-size: 13px;
+          cursor: pointer;
+        }
+        .modalNav button:hover:not(:disabled) {
+          border-color: #667eea;
+        }
+        .modalNav button:disabled {
+          color: #bbb;
+          cursor: default;
+        }
+        .modalContent:focus {
+          outline: none;
+        }
+        .modalTitle {
+          font-size: 24px;
+          font-weight: 700;
+          color: #2c3e50;
+          margin: 0 0 10px;
+        }
+        .modalBody {
+          padding: 30px;
+          overflow-y: auto;
+          line-height: 1.8;
+          flex: 1;
+        }
+        .closeBtn {
+          position: absolute;
+          top: 20px;
+          right: 20px;
+          background: #e74c3c;
+          color: white;
+          border: none;
+          width: 36px;
+          height: 36px;
+          border-radius: 50%;
+          cursor: pointer;
+          font-size: 20px;
+          font-weight: bold;
+          z-index: 10;
+        }
+        .closeBtn:hover {
+          background: #c0392b;
+        }
+      `}</style>
+    </div>
+  );
+}
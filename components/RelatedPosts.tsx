@@ -0,0 +1,122 @@
+"use client";
+
+import { useMemo } from "react";
+import { Post, normalizeTagLabel } from "@/lib/posts";
+import { SimilarityIndex, relatedPosts } from "@/lib/similarity";
+
+// Shared tags listed per match; the rest are summarised as "+n"
+const TAGS_SHOWN = 3;
+
+/** "More like this" for the open post: the closest posts by other authors, with why they matched. */
+export default function RelatedPosts({
+  index,
+  post,
+  onOpenPost,
+}: {
+  index: SimilarityIndex;
+  post: Post;
+  onOpenPost: (post: Post) => void;
+}) {
+  const related = useMemo(() => relatedPosts(index, post), [index, post]);
+  if (related.length === 0) return null;
+
+  return (
+    <section className="relatedPosts" aria-labelledby="relatedPostsTitle">
+      <h3 id="relatedPostsTitle">🔗 Related posts</h3>
+      <ul>
+        {related.map(({ post: match, score, sharedTags, sharedTerms }, i) => (
+          <li key={match.thread_id ?? `related-${i}`}>
+            <button type="button" className="relatedTitle" onClick={() => onOpenPost(match)}>
+              {match.title ?? "Untitled"}
+            </button>
+            <span className="relatedMeta">
+              👤 {match.author_name ?? "Unknown Author"} · {Math.round(score * 100)}% match
+            </span>
+            <div className="relatedReasons">
+              {sharedTags.length > 0 ? (
+                <span>
+                  Shared tags:{" "}
+                  {sharedTags.slice(0, TAGS_SHOWN).map(({ kind, tag }) => (
+                    <span key={`${kind}-${tag}`} className={`reasonTag ${kind}`}>
+                      {kind === "models" ? tag : normalizeTagLabel(tag)}
+                    </span>
+                  ))}
+                  {sharedTags.length > TAGS_SHOWN ? ` +${sharedTags.length - TAGS_SHOWN}` : ""}
+                </span>
+              ) : null}
+              {sharedTerms.length > 0 ? (
+                <span>
+                  Key terms: <em>{sharedTerms.join(", ")}</em>
+                </span>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <style jsx>{`
+        .relatedPosts {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 2px solid #f0f0f0;
+        }
+        h3 {
+          color: #2c3e50;
+          margin: 0 0 12px;
+        }
+        ul {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+        li {
+          padding: 10px 0;
+          border-bottom: 1px solid #f4f4f4;
+          line-height: 1.5;
+        }
+        .relatedTitle {
+          display: block;
+          padding: 0;
+          border: none;
+          background: none;
+          text-align: left;
+          font: inherit;
+          font-weight: 600;
+          color: #2980b9;
+          cursor: pointer;
+        }
+        .relatedTitle:hover {
+          text-decoration: underline;
+        }
+        .relatedMeta {
+          color: #95a5a6;
+          font-size: 12px;
+        }
+        .relatedReasons {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px 16px;
+          color: #7f8c8d;
+          font-size: 12px;
+          margin-top: 2px;
+        }
+        .reasonTag {
+          display: inline-block;
+          margin-right: 4px;
+          padding: 0 8px;
+          border-radius: 10px;
+          background: #e8f4f8;
+          color: #2980b9;
+        }
+        .reasonTag.models {
+          background: #fff5e6;
+          color: #f39c12;
+        }
+        .reasonTag.topics {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+      `}</style>
+    </section>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { downloadText } from "@/lib/export";
+import { Post } from "@/lib/posts";
+import {
+  DEFAULT_RUBRIC,
+  RubricCriterion,
+  newCriterionId,
+  reviewStore,
+  reviewToCSV,
+  rubricMax,
+  setRubric,
+} from "@/lib/review";
+import { useLocalStore } from "@/lib/useLocalStore";
+
+/**
+ * Maximum score of one criterion. The typed text is kept as is while editing
+ * and only checked on blur, so the field can be cleared and retyped.
+ */
+function MaxInput({ criterion, onChange }: { criterion: RubricCriterion; onChange: (max: number) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  function commit() {
+    if (draft === null) return;
+    const max = Math.floor(Number(draft));
+    if (max >= 1 && max !== criterion.max) onChange(max);
+    setDraft(null);
+  }
+
+  return (
+    <input
+      type="number"
+      aria-label={`${criterion.label} maximum score`}
+      min={1}
+      step={1}
+      value={draft ?? criterion.max}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+    />
+  );
+}
+
+/** Dropdown to edit the grading rubric and export every reviewed post in `posts` as CSV. */
+export default function ReviewMenu({ posts }: { posts: Post[] }) {
+  const state = useLocalStore(reviewStore);
+  const { rubric } = state;
+  const reviewed = posts.filter((p) => p.thread_id != null && state.posts[p.thread_id]).length;
+
+  function exportGrades() {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadText(reviewToCSV(posts, state), `grades-${stamp}.csv`, "text/csv");
+  }
+
+  return (
+    <details className="reviewMenu">
+      <summary>🎓 Grading ({reviewed})</summary>
+      <div className="reviewOptions">
+        <button type="button" className="exportBtn" disabled={reviewed === 0} onClick={exportGrades}>
+          Export grades as CSV
+        </button>
+
+        <fieldset>
+          <legend>Rubric (out of {rubricMax(rubric)})</legend>
+          {rubric.map((c, i) => (
+            <div className="criterionRow" key={c.id}>
+              <input
+                type="text"
+                aria-label={`Criterion ${i + 1} name`}
+                value={c.label}
+                onChange={(e) => setRubric(rubric.map((r) => (r.id === c.id ? { ...r, label: e.target.value } : r)))}
+              />
+              <MaxInput
+                criterion={c}
+                onChange={(max) => setRubric(rubric.map((r) => (r.id === c.id ? { ...r, max } : r)))}
+              />
+              <button
+                type="button"
+                className="removeBtn"
+                aria-label={`Remove ${c.label}`}
+                onClick={() => setRubric(rubric.filter((r) => r.id !== c.id))}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="rubricActions">
+            <button
+              type="button"
+              onClick={() => setRubric([...rubric, { id: newCriterionId(), label: "New criterion", max: 5 }])}
+            >
+              + Add criterion
+            </button>
+            <button type="button" onClick={() => setRubric(DEFAULT_RUBRIC)}>
+              Reset to default
+            </button>
+          </div>
+        </fieldset>
+        <p className="reviewHint">
+          Saved in this browser only. Scores for removed criteria are kept but left out of totals; scores
+          above a lowered maximum count as the maximum.
+        </p>
+      </div>
+
+      <style jsx>{`
+        .reviewMenu {
+          position: relative;
+        }
+        summary {
+          list-style: none;
+          padding: 6px 12px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+          background: white;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+        summary::-webkit-details-marker {
+          display: none;
+        }
+        .reviewMenu[open] summary {
+          border-color: #667eea;
+        }
+        .reviewOptions {
+          position: absolute;
+          right: 0;
+          top: calc(100% + 4px);
+          z-index: 10;
+          display: flex;
+          flex-direction: column;
+          width: 320px;
+          background: white;
+          border: 1px solid #e0e0e0;
+          border-radius: 8px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.12);
+          overflow: hidden;
+        }
+        .exportBtn {
+          text-align: left;
+          padding: 10px 14px;
+          border: none;
+          background: white;
+          font-size: 14px;
+          color: #2c3e50;
+          cursor: pointer;
+        }
+        .exportBtn:hover:not(:disabled) {
+          background: #f0f2fd;
+        }
+        .exportBtn:disabled {
+          color: #aaa;
+          cursor: not-allowed;
+        }
+        fieldset {
+          border: none;
+          border-top: 1px solid #f0f0f0;
+          margin: 0;
+          padding: 8px 14px 10px;
+        }
+        legend {
+          padding: 8px 0 4px;
+          font-size: 13px;
+          font-weight: 600;
+          color: #2c3e50;
+        }
+        .criterionRow {
+          display: flex;
+          gap: 6px;
+          margin-bottom: 6px;
+        }
+        .criterionRow :global(input) {
+          padding: 4px 6px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 13px;
+          min-width: 0;
+        }
+        .criterionRow :global(input[type="text"]) {
+          flex: 1;
+        }
+        .criterionRow :global(input[type="number"]) {
+          width: 60px;
+        }
+        .criterionRow :global(input:focus) {
+          outline: none;
+          border-color: #667eea;
+        }
+        .removeBtn {
+          border: none;
+          background: none;
+          color: #c0392b;
+          cursor: pointer;
+        }
+        .rubricActions {
+          display: flex;
+          gap: 8px;
+          margin-top: 4px;
+        }
+        .rubricActions button {
+          padding: 4px 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          font-size: 12px;
+          color: #2c3e50;
+          cursor: pointer;
+        }
+        .rubricActions button:hover {
+          border-color: #667eea;
+        }
+        .reviewHint {
+          margin: 0;
+          padding: 8px 14px;
+          font-size: 12px;
+          color: #95a5a6;
+          border-top: 1px solid #f0f0f0;
+        }
+      `}</style>
+    </details>
+  );
+}
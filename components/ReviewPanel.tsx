@@ -0,0 +1,175 @@
+"use client";
+
+import {
+  REVIEW_STATUSES,
+  ReviewStatus,
+  reviewScore,
+  reviewStore,
+  reviewTotal,
+  rubricMax,
+  setReviewScore,
+  updateReviewEntry,
+} from "@/lib/review";
+import { useLocalStore } from "@/lib/useLocalStore";
+
+/** Status, rubric scores and private comment for grading one post, shown in the post modal in review mode. */
+export default function ReviewPanel({ threadId }: { threadId: number }) {
+  const { rubric, posts } = useLocalStore(reviewStore);
+  const entry = posts[threadId];
+  const status: ReviewStatus = entry?.status ?? "unreviewed";
+  const total = reviewTotal(entry, rubric);
+
+  return (
+    <div className="reviewPanel">
+      <div className="reviewStatuses" role="radiogroup" aria-label="Review status">
+        {(Object.keys(REVIEW_STATUSES) as ReviewStatus[]).map((s) => (
+          <button
+            type="button"
+            key={s}
+            role="radio"
+            aria-checked={status === s}
+            className={`statusBtn ${s} ${status === s ? "on" : ""}`}
+            onClick={() => updateReviewEntry(threadId, { status: s === "unreviewed" ? undefined : s })}
+          >
+            {REVIEW_STATUSES[s]}
+          </button>
+        ))}
+        {entry?.reviewedAt ? (
+          <span className="reviewMeta">Updated {new Date(entry.reviewedAt).toLocaleString()}</span>
+        ) : null}
+      </div>
+
+      {rubric.length > 0 ? (
+        <div className="rubric">
+          {rubric.map((c) => (
+            <label key={c.id} className="criterion">
+              <span>{c.label}</span>
+              <input
+                type="number"
+                min={0}
+                max={c.max}
+                step={1}
+                value={reviewScore(entry, c) ?? ""}
+                onChange={(e) =>
+                  setReviewScore(threadId, c, e.target.value === "" ? undefined : Number(e.target.value))
+                }
+              />
+              <span className="reviewMeta">/ {c.max}</span>
+            </label>
+          ))}
+          <span className="total">
+            Total: <strong>{total ?? "–"}</strong> / {rubricMax(rubric)}
+          </span>
+        </div>
+      ) : (
+        <p className="reviewMeta">No rubric criteria. Add some from the Grading menu.</p>
+      )}
+
+      <label className="reviewCommentLabel" htmlFor={`review-${threadId}`}>
+        🎓 Review comment <span className="reviewMeta">(staff only, saved in this browser)</span>
+      </label>
+      <textarea
+        id={`review-${threadId}`}
+        className="reviewComment"
+        value={entry?.comment ?? ""}
+        onChange={(e) => updateReviewEntry(threadId, { comment: e.target.value })}
+        placeholder="Feedback or grading notes for this submission..."
+        rows={2}
+      />
+
+      <style jsx>{`
+        .reviewPanel {
+          padding: 15px 30px;
+          border-bottom: 2px solid #f0f0f0;
+          background: #f7fbf8;
+        }
+        .reviewStatuses {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 8px;
+          margin-bottom: 10px;
+        }
+        .statusBtn {
+          padding: 5px 12px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          font-size: 13px;
+          color: #2c3e50;
+          cursor: pointer;
+        }
+        .statusBtn:hover {
+          border-color: #667eea;
+        }
+        .statusBtn.on {
+          border-color: #667eea;
+          background: #f0f2fd;
+          font-weight: 600;
+        }
+        .statusBtn.accepted.on {
+          border-color: #27ae60;
+          background: #e8f8e8;
+        }
+        .statusBtn.needs_revision.on {
+          border-color: #f39c12;
+          background: #fff5e6;
+        }
+        .statusBtn.rejected.on {
+          border-color: #c0392b;
+          background: #fdecea;
+        }
+        .rubric {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 8px 18px;
+          margin-bottom: 10px;
+          font-size: 14px;
+          color: #2c3e50;
+        }
+        .criterion {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+        .criterion input {
+          width: 56px;
+          padding: 4px 6px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 14px;
+        }
+        .criterion input:focus,
+        .reviewComment:focus {
+          outline: none;
+          border-color: #667eea;
+        }
+        .total strong {
+          color: #667eea;
+        }
+        .reviewMeta {
+          color: #95a5a6;
+          font-size: 12px;
+          font-weight: normal;
+        }
+        .reviewCommentLabel {
+          display: block;
+          font-weight: 600;
+          font-size: 14px;
+          color: #2c3e50;
+          margin-bottom: 6px;
+        }
+        .reviewComment {
+          width: 100%;
+          padding: 8px 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font: inherit;
+          font-size: 14px;
+          resize: vertical;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { downloadText } from "@/lib/export";
+import { facetCounts } from "@/lib/filters";
+import { LabelSource, Post, TAG_KINDS, TagKind, normalizeTagLabel, postTags } from "@/lib/posts";
+import {
+  clearTagOverride,
+  normalizeTagInput,
+  setTagOverride,
+  tagOverrideStore,
+  tagOverridesToJSONL,
+} from "@/lib/tagOverrides";
+import { useLocalStore } from "@/lib/useLocalStore";
+
+const KIND_LABELS: Record<TagKind, string> = { models: "Models", topics: "Topics", assignments: "Assignment types" };
+
+const NO_DRAFTS: Record<TagKind, string> = { models: "", topics: "", assignments: "" };
+
+/**
+ * The post's LLM tags in the modal, with an editor to correct them. `post` has
+ * the corrections applied and `original` is the record as loaded; `posts` feeds
+ * the tag suggestions and the patch export.
+ */
+export default function TagEditor({
+  threadId,
+  post,
+  original,
+  posts,
+  labelSource,
+}: {
+  threadId: number;
+  post: Post;
+  original: Post;
+  posts: Post[];
+  labelSource: LabelSource;
+}) {
+  const overrides = useLocalStore(tagOverrideStore);
+  const override = overrides[threadId];
+  const correctionCount = Object.keys(overrides).length;
+  const [editing, setEditing] = useState(false);
+  const [drafts, setDrafts] = useState(NO_DRAFTS);
+
+  const suggestions = useMemo(() => {
+    const counts = facetCounts(posts, "llm");
+    const byKind = {} as Record<TagKind, string[]>;
+    for (const kind of TAG_KINDS) byKind[kind] = Object.keys(counts[kind]).sort();
+    return byKind;
+  }, [posts]);
+
+  function update(kind: TagKind, tags: string[]) {
+    setTagOverride(threadId, kind, tags, postTags(original, kind, "llm"));
+  }
+
+  function addTag(kind: TagKind) {
+    const tag = normalizeTagInput(drafts[kind]);
+    setDrafts((d) => ({ ...d, [kind]: "" }));
+    if (!tag) return;
+    let tags = postTags(post, kind, "llm");
+    // Naming the model replaces the labeller's "unknown"
+    if (kind === "models" && tag !== "unknown") tags = tags.filter((t) => t !== "unknown");
+    if (!tags.includes(tag)) update(kind, [...tags, tag]);
+  }
+
+  function exportCorrections() {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadText(tagOverridesToJSONL(posts, overrides), `tag-corrections-${stamp}.jsonl`, "application/x-ndjson");
+  }
+
+  return (
+    <div className="tagEditor">
+      <div className="tagEditorHeader">
+        <strong>🏷️ Tags</strong>
+        {override ? <span className="edited">corrected by hand</span> : null}
+        <button type="button" className="editorBtn" aria-expanded={editing} onClick={() => setEditing((e) => !e)}>
+          {editing ? "Done" : "✏️ Correct tags"}
+        </button>
+      </div>
+
+      {TAG_KINDS.map((kind) => {
+        const tags = postTags(post, kind, "llm");
+        if (!editing && tags.length === 0) return null;
+        return (
+          <div className="tagRow" key={kind}>
+            <span className="kindLabel">
+              {KIND_LABELS[kind]}
+              {override?.[kind] ? <span className="edited"> · edited</span> : null}
+            </span>
+            {tags.map((tag) => (
+              <span key={tag} className={`tag ${kind}`}>
+                {kind === "models" ? tag : normalizeTagLabel(tag)}
+                {editing ? (
+                  <button
+                    type="button"
+                    className="removeTag"
+                    aria-label={`Remove ${normalizeTagLabel(tag)}`}
+                    onClick={() => update(kind, tags.filter((t) => t !== tag))}
+                  >
+                    ×
+                  </button>
+                ) : null}
+              </span>
+            ))}
+            {editing ? (
+              <form
+                className="addTag"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  addTag(kind);
+                }}
+              >
+                <input
+                  type="text"
+                  list={`tagSuggestions-${kind}`}
+                  aria-label={`Add ${KIND_LABELS[kind].toLowerCase()} tag`}
+                  placeholder="Add tag…"
+                  value={drafts[kind]}
+                  onChange={(e) => setDrafts((d) => ({ ...d, [kind]: e.target.value }))}
+                />
+                <datalist id={`tagSuggestions-${kind}`}>
+                  {suggestions[kind].map((tag) => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+                <button type="submit" className="editorBtn" disabled={!drafts[kind].trim()}>
+                  Add
+                </button>
+              </form>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {editing ? (
+        <div className="editorFooter">
+          <button type="button" className="editorBtn" disabled={!override} onClick={() => clearTagOverride(threadId)}>
+            Revert to file labels
+          </button>
+          <button type="button" className="editorBtn" disabled={correctionCount === 0} onClick={exportCorrections}>
+            ⬇️ Export all {correctionCount} correction{correctionCount === 1 ? "" : "s"} (JSONL patch)
+          </button>
+          <span className="hint">
+            Corrections replace the LLM labels (cluster_metadata) and are saved in this browser.
+            {labelSource === "heuristic" ? " Switch the filters to LLM labels to filter by them." : ""}
+          </span>
+        </div>
+      ) : null}
+
+      <style jsx>{`
+        .tagEditor {
+          padding: 12px 30px;
+          border-bottom: 2px solid #f0f0f0;
+          font-size: 14px;
+        }
+        .tagEditorHeader {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 6px;
+          color: #2c3e50;
+        }
+        .edited {
+          color: #8e44ad;
+          font-size: 12px;
+        }
+        .tagEditorHeader .editorBtn {
+          margin-left: auto;
+        }
+        .editorBtn {
+          padding: 4px 10px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          background: white;
+          font-size: 12px;
+          color: #2c3e50;
+          cursor: pointer;
+        }
+        .editorBtn:hover:not(:disabled) {
+          border-color: #667eea;
+        }
+        .editorBtn:disabled {
+          color: #aaa;
+          cursor: not-allowed;
+        }
+        .tagRow {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 6px;
+          padding: 3px 0;
+        }
+        .kindLabel {
+          width: 130px;
+          color: #7f8c8d;
+          font-size: 12px;
+        }
+        .tag {
+          display: inline-flex;
+          align-items: center;
+          gap: 4px;
+          background: #e8f4f8;
+          color: #2980b9;
+          padding: 3px 10px;
+          border-radius: 12px;
+          font-size: 12px;
+          font-weight: 500;
+        }
+        .tag.models {
+          background: #fff5e6;
+          color: #f39c12;
+        }
+        .tag.topics {
+          background: #e8f8e8;
+          color: #27ae60;
+        }
+        .removeTag {
+          border: none;
+          background: none;
+          padding: 0;
+          color: inherit;
+          font-size: 14px;
+          line-height: 1;
+          cursor: pointer;
+        }
+        .addTag {
+          display: flex;
+          gap: 4px;
+        }
+        .addTag input {
+          width: 160px;
+          padding: 3px 8px;
+          border: 2px solid #e0e0e0;
+          border-radius: 6px;
+          font-size: 12px;
+        }
+        .addTag input:focus {
+          outline: none;
+          border-color: #667eea;
+        }
+        .editorFooter {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 8px;
+          margin-top: 8px;
+        }
+        .hint {
+          color: #95a5a6;
+          font-size: 12px;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+
+type Props<T> = {
+  items: T[];
+  itemKey: (item: T, index: number) => React.Key;
+  renderItem: (item: T) => React.ReactNode;
+  minColumnWidth: number;
+  rowHeight: number;
+  gap: number;
+  // rows rendered beyond each edge of the viewport
+  overscan?: number;
+  // the window scrolls just enough to bring this item's row into view whenever it changes
+  scrollToIndex?: number;
+};
+
+/**
+ * Grid of fixed-height cells that only mounts the rows near the viewport. It
+ * scrolls with the window, so the page keeps a single scrollbar and the scroll
+ * position survives the item list changing.
+ */
+export default function VirtualGrid<T>({
+  items,
+  itemKey,
+  renderItem,
+  minColumnWidth,
+  rowHeight,
+  gap,
+  overscan = 3,
+  scrollToIndex,
+}: Props<T>) {
+  const ref = useRef<HTMLDivElement | null>(null);
+  const [width, setWidth] = useState(0);
+  // visible window, in px relative to the top of the grid
+  const [view, setView] = useState({ top: 0, height: 0 });
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    let frame = 0;
+
+    const measure = () => {
+      frame = 0;
+      const rect = el.getBoundingClientRect();
+      setWidth(el.clientWidth);
+      setView((prev) => {
+        const next = { top: -rect.top, height: window.innerHeight };
+        return prev.top === next.top && prev.height === next.height ? prev : next;
+      });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+
+    // The body resizes whenever content above the grid grows or shrinks (a panel opening, say),
+    // which moves the grid without any scroll or window resize
+    const observer = new ResizeObserver(schedule);
+    observer.observe(el);
+    observer.observe(document.body);
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+  const rows = Math.ceil(items.length / columns);
+  const stride = rowHeight + gap;
+  const firstRow = Math.max(0, Math.floor(view.top / stride) - overscan);
+  const lastRow = Math.min(rows, Math.ceil((view.top + view.height) / stride) + overscan);
+  const start = firstRow * columns;
+  const visible = items.slice(start, lastRow * columns);
+
+  // Layout as of the last render, for the scroll effect below, which should only run when the index changes
+  const layout = useRef({ columns, stride });
+  useEffect(() => {
+    layout.current = { columns, stride };
+  }, [columns, stride]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || scrollToIndex === undefined || scrollToIndex < 0) return;
+    const { columns, stride } = layout.current;
+    const top = el.getBoundingClientRect().top + window.scrollY + Math.floor(scrollToIndex / columns) * stride;
+    const bottom = top + rowHeight;
+    if (top < window.scrollY) window.scrollTo({ top: top - gap });
+    else if (bottom > window.scrollY + window.innerHeight) window.scrollTo({ top: bottom + gap - window.innerHeight });
+  }, [scrollToIndex, rowHeight, gap]);
+
+  return (
+    <div ref={ref} style={{ position: "relative", height: Math.max(0, rows * stride - gap) }}>
+      <div
+        style={{
+          position: "absolute",
+          top: firstRow * stride,
+          left: 0,
+          right: 0,
+          display: "grid",
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gridAutoRows: rowHeight,
+          gap,
+        }}
+      >
+        {visible.map((item, i) => (
+          <React.Fragment key={itemKey(item, start + i)}>{renderItem(item)}</React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { FacetCounts, facetCounts } from "@/lib/filters";
+import { LabelSource, Post, TagKind, postTags, safeDate } from "@/lib/posts";
+
+export type CountEntry = { key: string; count: number };
+
+export type WeekBucket = { weekStart: Date; count: number };
+
+export type AuthorCount = { id: string; name: string; count: number };
+
+export type Analytics = {
+  total: number;
+  byTag: Record<TagKind, CountEntry[]>;
+  // model -> topic -> posts tagged with both
+  coOccurrence: { models: string[]; topics: string[]; counts: Record<string, Record<string, number>>; max: number };
+  weekly: WeekBucket[];
+  topAuthors: AuthorCount[];
+};
+
+function sortedEntries(counts: Record<string, number>): CountEntry[] {
+  return Object.entries(counts)
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/** Monday 00:00 local time of the week containing `d`. */
+export function weekStart(d: Date): Date {
+  const start = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+/** Number of `dates` in each week, from the first week with one to the last. */
+export function weeklyBuckets(dates: (Date | null)[]): WeekBucket[] {
+  const counts = new Map<number, number>();
+  for (const d of dates) {
+    if (!d) continue;
+    const key = weekStart(d).getTime();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  if (counts.size === 0) return [];
+
+  // Fill the gaps so quiet weeks show up as empty bars
+  const keys = Array.from(counts.keys());
+  const buckets: WeekBucket[] = [];
+  const last = Math.max(...keys);
+  for (let t = Math.min(...keys); t <= last; ) {
+    buckets.push({ weekStart: new Date(t), count: counts.get(t) ?? 0 });
+    // Step with setDate rather than adding milliseconds so DST changes don't drift off midnight
+    const next = new Date(t);
+    next.setDate(next.getDate() + 7);
+    t = next.getTime();
+  }
+  return buckets;
+}
+
+function topAuthors(posts: Post[], limit: number): AuthorCount[] {
+  const byAuthor = new Map<string, AuthorCount>();
+  for (const post of posts) {
+    const id = post.author_user_id != null ? String(post.author_user_id) : `name:${post.author_name ?? ""}`;
+    const entry = byAuthor.get(id) ?? { id, name: post.author_name ?? "Unknown Author", count: 0 };
+    entry.count++;
+    byAuthor.set(id, entry);
+  }
+  return Array.from(byAuthor.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+export function computeAnalytics(posts: Post[], source: LabelSource = "llm", topAuthorLimit = 10): Analytics {
+  const facets: FacetCounts = facetCounts(posts, source);
+
+  const counts: Record<string, Record<string, number>> = {};
+  let max = 0;
+  for (const post of posts) {
+    const topics = new Set(postTags(post, "topics", source));
+    for (const model of new Set(postTags(post, "models", source))) {
+      for (const topic of topics) {
+        const row = (counts[model] ??= {});
+        row[topic] = (row[topic] ?? 0) + 1;
+        max = Math.max(max, row[topic]);
+      }
+    }
+  }
+
+  const byTag = {
+    models: sortedEntries(facets.models),
+    topics: sortedEntries(facets.topics),
+    assignments: sortedEntries(facets.assignments),
+  };
+
+  return {
+    total: posts.length,
+    byTag,
+    coOccurrence: {
+      models: byTag.models.map((e) => e.key).filter((m) => counts[m]),
+      topics: byTag.topics.map((e) => e.key),
+      counts,
+      max,
+    },
+    weekly: weeklyBuckets(posts.map((p) => safeDate(p.created_at))),
+    topAuthors: topAuthors(posts, topAuthorLimit),
+  };
+}
@@ -0,0 +1,107 @@
+// Classifies Ed `<file>` attachments by file name so each kind gets a suitable viewer.
+
+export type AttachmentKind = "pdf" | "notebook" | "source" | "image" | "video" | "audio" | "archive" | "other";
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  pdf: "PDF",
+  notebook: "Notebook",
+  source: "Source / text",
+  image: "Image",
+  video: "Video",
+  audio: "Audio",
+  archive: "Archive",
+  other: "Other",
+};
+
+export const ATTACHMENT_KIND_ICONS: Record<AttachmentKind, string> = {
+  pdf: "📄",
+  notebook: "📓",
+  source: "🧾",
+  image: "🖼️",
+  video: "🎬",
+  audio: "🎧",
+  archive: "🗜️",
+  other: "📎",
+};
+
+export type Attachment = {
+  url: string;
+  name: string;
+  extension: string;
+  kind: AttachmentKind;
+  // highlight.js language for source files
+  language?: string;
+  // human-readable type, e.g. "Python source"
+  typeLabel: string;
+};
+
+const SOURCE_TYPES: Record<string, [language: string, label: string]> = {
+  py: ["python", "Python source"],
+  js: ["javascript", "JavaScript source"],
+  jsx: ["javascript", "JavaScript source"],
+  ts: ["typescript", "TypeScript source"],
+  tsx: ["typescript", "TypeScript source"],
+  c: ["c", "C source"],
+  h: ["c", "C header"],
+  cpp: ["cpp", "C++ source"],
+  cc: ["cpp", "C++ source"],
+  hpp: ["cpp", "C++ header"],
+  java: ["java", "Java source"],
+  r: ["r", "R script"],
+  m: ["matlab", "MATLAB script"],
+  sh: ["bash", "Shell script"],
+  sql: ["sql", "SQL"],
+  tex: ["latex", "LaTeX document"],
+  bib: ["latex", "BibTeX bibliography"],
+  html: ["xml", "HTML document"],
+  htm: ["xml", "HTML document"],
+  xml: ["xml", "XML document"],
+  css: ["css", "Stylesheet"],
+  json: ["json", "JSON data"],
+  yaml: ["yaml", "YAML"],
+  yml: ["yaml", "YAML"],
+  md: ["markdown", "Markdown"],
+  txt: ["plaintext", "Text file"],
+  csv: ["plaintext", "CSV data"],
+  log: ["plaintext", "Log file"],
+};
+
+const MEDIA_TYPES: Record<string, [kind: AttachmentKind, label: string]> = {
+  pdf: ["pdf", "PDF document"],
+  ipynb: ["notebook", "Jupyter notebook"],
+  png: ["image", "PNG image"],
+  jpg: ["image", "JPEG image"],
+  jpeg: ["image", "JPEG image"],
+  gif: ["image", "GIF image"],
+  svg: ["image", "SVG image"],
+  webp: ["image", "WebP image"],
+  mp4: ["video", "MP4 video"],
+  mov: ["video", "QuickTime video"],
+  webm: ["video", "WebM video"],
+  mp3: ["audio", "MP3 audio"],
+  m4a: ["audio", "M4A audio"],
+  wav: ["audio", "WAV audio"],
+  zip: ["archive", "ZIP archive"],
+  tar: ["archive", "TAR archive"],
+  gz: ["archive", "Gzip archive"],
+  "7z": ["archive", "7-Zip archive"],
+};
+
+export function fileExtension(name: string): string {
+  const m = name.match(/\.([a-z0-9]+)$/i);
+  return m ? m[1].toLowerCase() : "";
+}
+
+/** Attachment details from a `<file url filename>` element's attributes; null without a URL. */
+export function classifyAttachment(attrs: Record<string, string>): Attachment | null {
+  const url = attrs.url;
+  if (!url) return null;
+  const name = attrs.filename || url.split("/").pop() || "Attachment";
+  const extension = fileExtension(name);
+
+  const source = SOURCE_TYPES[extension];
+  if (source) return { url, name, extension, kind: "source", language: source[0], typeLabel: source[1] };
+  const media = MEDIA_TYPES[extension];
+  if (media) return { url, name, extension, kind: media[0], typeLabel: media[1] };
+  return { url, name, extension, kind: "other", typeLabel: extension ? `${extension.toUpperCase()} file` : "File" };
+}
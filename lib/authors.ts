@@ -0,0 +1,130 @@
+import { weekStart, weeklyBuckets } from "@/lib/analytics";
+import { edTextContent, parseEdDocument } from "@/lib/edDocument";
+import { Post, PostComment, safeDate } from "@/lib/posts";
+
+// Everything one person (by author_user_id, not by name) contributed to the dataset.
+
+const COMMENT_EXCERPT_CHARS = 300;
+
+export type AuthorComment = {
+  id: number;
+  type: "comment" | "answer";
+  threadId?: number;
+  threadTitle: string;
+  createdAt?: string;
+  excerpt: string;
+  voteCount: number;
+  endorsed: boolean;
+};
+
+export type AuthorProfile = {
+  userId: number;
+  name: string;
+  // every other spelling of the name seen on their posts
+  otherNames: string[];
+  role?: string;
+  posts: Post[];
+  comments: AuthorComment[];
+};
+
+export type AuthorEngagement = {
+  views: number;
+  votes: number;
+  replies: number;
+  stars: number;
+  commentVotes: number;
+  endorsedAnswers: number;
+};
+
+export type AuthorWeek = { weekStart: Date; posts: number; comments: number };
+
+export function authorHref(userId: number) {
+  return `/authors/${userId}`;
+}
+
+function excerpt(comment: PostComment) {
+  const text = (comment.content ? edTextContent(parseEdDocument(comment.content)) : (comment.document ?? ""))
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > COMMENT_EXCERPT_CHARS ? `${text.slice(0, COMMENT_EXCERPT_CHARS)}…` : text;
+}
+
+function collectComments(post: Post, userId: number, out: AuthorComment[]) {
+  const walk = (list: PostComment[] | undefined) => {
+    for (const c of list ?? []) {
+      // Anonymous comments stay anonymous
+      if (c.user_id === userId && !c.is_anonymous) {
+        out.push({
+          id: c.id,
+          type: c.type === "answer" ? "answer" : "comment",
+          threadId: post.thread_id,
+          threadTitle: post.title ?? "Untitled",
+          createdAt: c.created_at,
+          excerpt: excerpt(c),
+          voteCount: c.vote_count ?? 0,
+          endorsed: !!c.is_endorsed,
+        });
+      }
+      walk(c.comments);
+    }
+  };
+  walk(post.raw?.answers);
+  walk(post.raw?.comments);
+}
+
+const byDateDesc = (a?: string | number, b?: string | number) =>
+  (safeDate(b)?.getTime() ?? 0) - (safeDate(a)?.getTime() ?? 0);
+
+/** The author's posts and non-anonymous comments, newest first. Null if they have neither. */
+export function authorProfile(posts: Post[], userId: number): AuthorProfile | null {
+  const own = posts.filter((p) => p.author_user_id === userId).sort((a, b) => byDateDesc(a.created_at, b.created_at));
+  const comments: AuthorComment[] = [];
+  for (const post of posts) collectComments(post, userId, comments);
+  comments.sort((a, b) => byDateDesc(a.createdAt, b.createdAt));
+  if (own.length === 0 && comments.length === 0) return null;
+
+  const names = Array.from(new Set(own.map((p) => p.author_name).filter((n): n is string => !!n)));
+  return {
+    userId,
+    name: names[0] ?? `User #${userId}`,
+    otherNames: names.slice(1),
+    role: own.find((p) => p.author_role)?.author_role,
+    posts: own,
+    comments,
+  };
+}
+
+export function authorEngagement(profile: AuthorProfile): AuthorEngagement {
+  const sum = (f: (p: Post) => number | undefined) => profile.posts.reduce((n, p) => n + (f(p) ?? 0), 0);
+  return {
+    views: sum((p) => p.raw?.view_count),
+    votes: sum((p) => p.raw?.vote_count),
+    replies: sum((p) => p.raw?.reply_count),
+    stars: sum((p) => p.raw?.star_count),
+    commentVotes: profile.comments.reduce((n, c) => n + c.voteCount, 0),
+    endorsedAnswers: profile.comments.filter((c) => c.endorsed).length,
+  };
+}
+
+/** Posts and comments per week, from the author's first activity to their last. */
+export function authorTimeline(profile: AuthorProfile): AuthorWeek[] {
+  const postDates = profile.posts.map((p) => safeDate(p.created_at));
+  const commentDates = profile.comments.map((c) => safeDate(c.createdAt));
+  const countByWeek = (dates: (Date | null)[]) => {
+    const counts = new Map<number, number>();
+    for (const d of dates) {
+      if (!d) continue;
+      const key = weekStart(d).getTime();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const posts = countByWeek(postDates);
+  const comments = countByWeek(commentDates);
+
+  return weeklyBuckets([...postDates, ...commentDates]).map(({ weekStart: start }) => ({
+    weekStart: start,
+    posts: posts.get(start.getTime()) ?? 0,
+    comments: comments.get(start.getTime()) ?? 0,
+  }));
+}
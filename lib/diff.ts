@@ -0,0 +1,109 @@
+// Longest-common-subsequence diff, by line and then by word within changed lines.
+
+export type DiffOp<T> = { type: "same" | "removed" | "added"; value: T };
+
+export type WordSegment = { text: string; changed: boolean };
+
+export type DiffRow =
+  | { type: "same"; left: string; right: string }
+  | { type: "changed"; left: WordSegment[]; right: WordSegment[] }
+  | { type: "removed"; left: string; right: null }
+  | { type: "added"; left: null; right: string };
+
+// Above this many table cells the inputs are reported as wholly replaced
+const MAX_CELLS = 4_000_000;
+
+export function lcsDiff<T>(a: T[], b: T[]): DiffOp<T>[] {
+  // Common head and tail need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((value): DiffOp<T> => ({ type: "same", value }));
+  const tail = a.slice(endA).map((value): DiffOp<T> => ({ type: "same", value }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_CELLS) {
+    return [
+      ...head,
+      ...midA.map((value): DiffOp<T> => ({ type: "removed", value })),
+      ...midB.map((value): DiffOp<T> => ({ type: "added", value })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i:] and midB[j:]
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      ops.push({ type: "same", value: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: "removed", value: midA[i++] });
+    } else {
+      ops.push({ type: "added", value: midB[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "removed", value: midA[i++] });
+  while (j < m) ops.push({ type: "added", value: midB[j++] });
+
+  return [...head, ...ops, ...tail];
+}
+
+function wordDiff(left: string, right: string): { left: WordSegment[]; right: WordSegment[] } {
+  // Split on whitespace but keep it, so segments join back into the original lines
+  const ops = lcsDiff(left.split(/(\s+)/), right.split(/(\s+)/));
+  return {
+    left: ops.filter((op) => op.type !== "added").map((op) => ({ text: op.value, changed: op.type === "removed" })),
+    right: ops.filter((op) => op.type !== "removed").map((op) => ({ text: op.value, changed: op.type === "added" })),
+  };
+}
+
+/**
+ * Rows for a two-column diff of `left` and `right`. Runs of removed and added
+ * lines are paired up as changed rows with word-level highlighting; whatever
+ * is left over on one side becomes a removed or added row.
+ */
+export function sideBySideDiff(left: string, right: string): DiffRow[] {
+  const lines = (text: string) => text.split("\n").filter((line) => line.trim() !== "");
+  const ops = lcsDiff(lines(left), lines(right));
+
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < ops.length; ) {
+    if (ops[k].type === "same") {
+      rows.push({ type: "same", left: ops[k].value, right: ops[k].value });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    for (; k < ops.length && ops[k].type !== "same"; k++) {
+      if (ops[k].type === "removed") removed.push(ops[k].value);
+      else added.push(ops[k].value);
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      if (r < removed.length && r < added.length) rows.push({ type: "changed", ...wordDiff(removed[r], added[r]) });
+      else if (r < removed.length) rows.push({ type: "removed", left: removed[r], right: null });
+      else rows.push({ type: "added", left: null, right: added[r] });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,157 @@
+import { parseEdDocument } from "@/lib/edDocument";
+import { Post } from "@/lib/posts";
+import { fileNames, tokenize } from "@/lib/search";
+
+// Near-duplicate detection: each post becomes a set of word shingles plus its
+// attachment file names. MinHash signatures with LSH banding pick out candidate
+// pairs cheaply; candidates are then scored by the exact Jaccard similarity of
+// their shingle sets, and pairs above the threshold are joined into clusters.
+
+const SHINGLE_WORDS = 5;
+const NUM_HASHES = 128;
+// 32 bands of 4 rows: pairs around 0.4 similarity and above almost always share a band
+const BANDS = 32;
+const ROWS = NUM_HASHES / BANDS;
+// Posts this similar or more are flagged
+export const DUPLICATE_THRESHOLD = 0.5;
+// Too little text to compare fairly
+const MIN_SHINGLES = 5;
+
+export type DuplicatePair = { a: Post; b: Post; similarity: number };
+
+export type DuplicateCluster = {
+  posts: Post[];
+  // every flagged pair inside the cluster, most similar first
+  pairs: DuplicatePair[];
+  maxSimilarity: number;
+};
+
+export type DuplicateReport = {
+  clusters: DuplicateCluster[];
+  clusterOf: Map<Post, DuplicateCluster>;
+};
+
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// murmur3's finalizer, to turn one hash into NUM_HASHES independent-looking ones
+function mix(h: number, seed: number): number {
+  h = Math.imul(h ^ seed, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fnv1a(`seed-${i}`));
+
+// What the scan needs from a post; small enough to hand to the scan worker cheaply
+export type DuplicateInput = { text: string; content: string };
+
+export function duplicateInput(post: Post): DuplicateInput {
+  return { text: post.document ?? post.raw?.document ?? "", content: post.raw?.content ?? "" };
+}
+
+function shingleSet({ text, content }: DuplicateInput): Set<string> {
+  const words = tokenize(text);
+  const shingles = new Set<string>();
+  if (words.length > 0 && words.length < SHINGLE_WORDS) shingles.add(words.join(" "));
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) shingles.add(words.slice(i, i + SHINGLE_WORDS).join(" "));
+  for (const name of fileNames(parseEdDocument(content))) shingles.add(`file:${name.toLowerCase()}`);
+  return shingles;
+}
+
+function signature(shingles: Set<string>): Uint32Array {
+  const sig = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const s of shingles) {
+    const h = fnv1a(s);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const v = mix(h, SEEDS[i]);
+      if (v < sig[i]) sig[i] = v;
+    }
+  }
+  return sig;
+}
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// A flagged pair, by position in the scanned list
+export type IndexPair = { i: number; j: number; similarity: number };
+
+/** Every pair of inputs at or above DUPLICATE_THRESHOLD. Run by the scan worker; about 1 ms a post. */
+export function findDuplicatePairs(inputs: DuplicateInput[]): IndexPair[] {
+  const shingles = inputs.map(shingleSet);
+  const ids = inputs.map((_, i) => i).filter((i) => shingles[i].size >= MIN_SHINGLES);
+  const signatures = new Map(ids.map((i) => [i, signature(shingles[i])]));
+
+  // LSH: posts whose signatures agree on a whole band are candidates
+  const candidates = new Set<string>();
+  for (let band = 0; band < BANDS; band++) {
+    const buckets = new Map<string, number[]>();
+    for (const i of ids) {
+      const key = Array.from(signatures.get(i)!.subarray(band * ROWS, (band + 1) * ROWS)).join(",");
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+    for (const bucket of buckets.values()) {
+      for (let x = 0; x < bucket.length; x++) {
+        for (let y = x + 1; y < bucket.length; y++) candidates.add(`${bucket[x]},${bucket[y]}`);
+      }
+    }
+  }
+
+  const pairs: IndexPair[] = [];
+  for (const key of candidates) {
+    const [i, j] = key.split(",").map(Number);
+    const similarity = jaccard(shingles[i], shingles[j]);
+    if (similarity >= DUPLICATE_THRESHOLD) pairs.push({ i, j, similarity });
+  }
+  return pairs;
+}
+
+/**
+ * Joins `pairs` into clusters over `posts`, most similar cluster first. The
+ * pairs' positions refer to `posts`; pairs outside it are ignored.
+ */
+export function duplicateReport(posts: Post[], pairs: IndexPair[]): DuplicateReport {
+  const inRange = pairs.filter(({ i, j }) => i < posts.length && j < posts.length);
+
+  // Union-find over the flagged pairs
+  const parent = new Map<number, number>();
+  const find = (i: number): number => {
+    const p = parent.get(i) ?? i;
+    if (p === i) return i;
+    const root = find(p);
+    parent.set(i, root);
+    return root;
+  };
+  for (const { i, j } of inRange) parent.set(find(i), find(j));
+
+  const byRoot = new Map<number, DuplicateCluster>();
+  for (const { i, j, similarity } of inRange.sort((x, y) => y.similarity - x.similarity)) {
+    const root = find(i);
+    let cluster = byRoot.get(root);
+    if (!cluster) byRoot.set(root, (cluster = { posts: [], pairs: [], maxSimilarity: similarity }));
+    cluster.pairs.push({ a: posts[i], b: posts[j], similarity });
+    for (const post of [posts[i], posts[j]]) if (!cluster.posts.includes(post)) cluster.posts.push(post);
+  }
+
+  const clusters = Array.from(byRoot.values()).sort(
+    (x, y) => y.maxSimilarity - x.maxSimilarity || y.posts.length - x.posts.length
+  );
+  const clusterOf = new Map<Post, DuplicateCluster>();
+  for (const cluster of clusters) for (const post of cluster.posts) clusterOf.set(post, cluster);
+  return { clusters, clusterOf };
+}
+
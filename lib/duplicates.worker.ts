@@ -0,0 +1,16 @@
+import { DuplicateInput, findDuplicatePairs } from "@/lib/duplicates";
+import type { DuplicateScanMessage } from "@/lib/duplicatesWorker";
+
+// Runs the near-duplicate scan off the main thread. Started by startDuplicateScan in lib/duplicatesWorker.ts.
+
+function send(message: DuplicateScanMessage) {
+  postMessage(message);
+}
+
+addEventListener("message", (e: MessageEvent<DuplicateInput[]>) => {
+  try {
+    send({ type: "done", pairs: findDuplicatePairs(e.data) });
+  } catch (err) {
+    send({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,33 @@
+import { IndexPair, duplicateInput } from "@/lib/duplicates";
+import { Post } from "@/lib/posts";
+
+// Main-thread side of lib/duplicates.worker.ts: the scan takes about 1 ms a post,
+// so it runs in a worker and only the flagged pairs come back.
+
+export type DuplicateScanMessage = { type: "done"; pairs: IndexPair[] } | { type: "error"; message: string };
+
+export type DuplicateScan = {
+  // flagged pairs by position in the scanned posts
+  done: Promise<IndexPair[]>;
+  /** Stops the worker; `done` never settles. */
+  cancel: () => void;
+};
+
+export function startDuplicateScan(posts: Post[]): DuplicateScan {
+  const worker = new Worker(new URL("./duplicates.worker.ts", import.meta.url));
+
+  const done = new Promise<IndexPair[]>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<DuplicateScanMessage>) => {
+      worker.terminate();
+      if (e.data.type === "error") reject(new Error(e.data.message));
+      else resolve(e.data.pairs);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Duplicate scan worker failed"));
+    };
+  });
+
+  worker.postMessage(posts.map(duplicateInput));
+  return { done, cancel: () => worker.terminate() };
+}
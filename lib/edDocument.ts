@@ -0,0 +1,94 @@
+// Parser for Ed's `<document version="2.0">` content. It is a small hand-rolled
+// tokenizer rather than DOMParser so the same tree can be built on the server.
+
+export type EdText = { type: "text"; text: string };
+
+export type EdElement = {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: EdNode[];
+};
+
+export type EdNode = EdText | EdElement;
+
+const TOKEN_RE =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<\/([\w:-]+)\s*>|<([\w:-]+)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|[^<]+|</g;
+const ATTR_RE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X" ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ent.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Parses Ed XML into a node tree. Returns the children of the root
+ * `<document>` element; malformed markup degrades to text instead of throwing.
+ */
+export function parseEdDocument(xml: string): EdNode[] {
+  const root: EdElement = { type: "element", tag: "#root", attrs: {}, children: [] };
+  if (!xml?.trim()) return root.children;
+
+  const stack: EdElement[] = [root];
+  const top = () => stack[stack.length - 1];
+
+  for (const m of xml.matchAll(TOKEN_RE)) {
+    const [token, cdata, closeTag, openTag, rawAttrs, selfClose] = m;
+
+    if (cdata !== undefined) {
+      top().children.push({ type: "text", text: cdata });
+    } else if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const idx = stack.map((el) => el.tag).lastIndexOf(tag);
+      // Unmatched closing tags are ignored; matched ones also close anything left open inside.
+      if (idx > 0) stack.length = idx;
+    } else if (openTag) {
+      const attrs: Record<string, string> = {};
+      for (const a of (rawAttrs ?? "").matchAll(ATTR_RE)) {
+        attrs[a[1].toLowerCase()] = decodeEntities(a[2] ?? a[3] ?? "");
+      }
+      const el: EdElement = { type: "element", tag: openTag.toLowerCase(), attrs, children: [] };
+      top().children.push(el);
+      if (!selfClose) stack.push(el);
+    } else if (!token.startsWith("<!--") && !token.startsWith("<?")) {
+      top().children.push({ type: "text", text: decodeEntities(token) });
+    }
+  }
+
+  const first = root.children.find((n) => n.type === "element");
+  if (first?.type === "element" && first.tag === "document") return first.children;
+  return root.children;
+}
+
+/** Depth-first walk over every element in the tree, in document order. */
+export function walkEdElements(nodes: EdNode[], visit: (el: EdElement, parent: EdElement | null) => void) {
+  const walk = (list: EdNode[], parent: EdElement | null) => {
+    for (const node of list) {
+      if (node.type !== "element") continue;
+      visit(node, parent);
+      walk(node.children, node);
+    }
+  };
+  walk(nodes, null);
+}
+
+/** Concatenated text content of a node list, ignoring markup (`<break/>` becomes a newline). */
+export function edTextContent(nodes: EdNode[]): string {
+  return nodes
+    .map((n) => (n.type === "text" ? n.text : n.tag === "break" ? "\n" : edTextContent(n.children)))
+    .join("");
+}
@@ -0,0 +1,201 @@
+import { EdElement, EdNode, edTextContent, parseEdDocument } from "@/lib/edDocument";
+
+// Ed XML to Markdown and static HTML, for exports that leave the app. Mirrors the
+// element handling in components/EdContent.tsx, minus embeds (files and videos become links).
+
+const INLINE_PARENTS = new Set(["paragraph", "heading", "bold", "italic", "underline", "link"]);
+
+function headingLevel(level: string | undefined) {
+  return Math.min(Math.max(parseInt(level ?? "1", 10) || 1, 1), 5) + 1;
+}
+
+function fileName(attrs: Record<string, string>) {
+  return attrs.filename || attrs.url?.split("/").pop() || "Attachment";
+}
+
+const SAFE_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+/**
+ * `url` if it is relative or uses a web or mail scheme, else null. Exports are
+ * opened outside the app, so `javascript:` and `data:` links must not survive.
+ */
+function safeUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  // Browsers ignore control characters and whitespace inside a scheme, e.g. "java\tscript:"
+  const scheme = url.replace(/[\u0000-\u0020\u007f]/g, "").match(/^([a-z][a-z\d+.-]*):/i)?.[1];
+  return scheme === undefined || SAFE_PROTOCOLS.has(`${scheme.toLowerCase()}:`) ? url : null;
+}
+
+function isOrdered(el: EdElement) {
+  return el.attrs.style === "number" || el.attrs.style === "ordered";
+}
+
+// ---------- Markdown ----------
+
+function indent(text: string, prefix: string) {
+  return text.replace(/\n(?=.)/g, `\n${prefix}`);
+}
+
+function mdNodes(nodes: EdNode[], parentTag: string | null): string {
+  return nodes.map((n) => mdNode(n, parentTag)).join("");
+}
+
+function mdNode(node: EdNode, parentTag: string | null): string {
+  if (node.type === "text") return node.text.replace(/([\\`*_[\]<>])/g, "\\$1");
+
+  const { tag, attrs, children } = node;
+  const kids = () => mdNodes(children, tag);
+
+  switch (tag) {
+    case "paragraph":
+      return `${kids().trim()}\n\n`;
+    case "heading":
+      return `${"#".repeat(headingLevel(attrs.level))} ${kids().trim()}\n\n`;
+    case "list": {
+      const items = children.filter((c): c is EdElement => c.type === "element" && c.tag === "list-item");
+      const lines = items.map((item, i) => {
+        const marker = isOrdered(node) ? `${i + 1}. ` : "- ";
+        const body = mdNodes(item.children, "list-item").replace(/\n{2,}/g, "\n").trim();
+        return marker + indent(body, " ".repeat(marker.length));
+      });
+      return `${lines.join("\n")}\n\n`;
+    }
+    case "list-item":
+      return `- ${kids().trim()}\n`;
+    case "bold":
+      return `**${kids()}**`;
+    case "italic":
+      return `_${kids()}_`;
+    case "underline":
+      return kids();
+    case "code":
+      return `\`${edTextContent(children)}\``;
+    case "pre":
+      return `\`\`\`${attrs.language ?? ""}\n${edTextContent(children).replace(/\n$/, "")}\n\`\`\`\n\n`;
+    case "blockquote":
+      return `> ${indent(kids().trim(), "> ")}\n\n`;
+    case "break":
+      return "  \n";
+    case "figure":
+      return `${kids().trim()}\n\n`;
+    case "image": {
+      const src = safeUrl(attrs.src);
+      return src ? `![${attrs.alt ?? ""}](${src})` : (attrs.alt ?? "");
+    }
+    case "link": {
+      const href = safeUrl(attrs.href);
+      const label = children.length > 0 ? kids() : (attrs.href ?? "");
+      return href ? `[${label}](${href})` : label;
+    }
+    case "file": {
+      if (!attrs.url) return "";
+      const url = safeUrl(attrs.url);
+      return url ? `📎 [${fileName(attrs)}](${url})\n\n` : `📎 ${fileName(attrs)}\n\n`;
+    }
+    case "video": {
+      if (!attrs.src) return "";
+      const src = safeUrl(attrs.src);
+      return src ? `🎬 [Video](${src})\n\n` : "🎬 Video\n\n";
+    }
+    case "math": {
+      const source = edTextContent(children).trim();
+      return parentTag && INLINE_PARENTS.has(parentTag) ? `$${source}$` : `$$\n${source}\n$$\n\n`;
+    }
+    default:
+      return kids();
+  }
+}
+
+/** Markdown for an Ed XML body, or the plain-text fallback when there is no XML. */
+export function edToMarkdown(xml: string | undefined, fallbackText = ""): string {
+  const nodes = parseEdDocument(xml ?? "");
+  const md = nodes.length > 0 ? mdNodes(nodes, null) : fallbackText;
+  return md.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// ---------- HTML ----------
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlNodes(nodes: EdNode[], parentTag: string | null): string {
+  return nodes.map((n) => htmlNode(n, parentTag)).join("");
+}
+
+function htmlNode(node: EdNode, parentTag: string | null): string {
+  if (node.type === "text") return escapeHtml(node.text);
+
+  const { tag, attrs, children } = node;
+  const kids = () => htmlNodes(children, tag);
+  // Unsafe URLs keep their label but lose the link
+  const link = (href: string | undefined, label: string) => {
+    const url = safeUrl(href);
+    return url ? `<a href="${escapeHtml(url)}">${label}</a>` : label;
+  };
+
+  switch (tag) {
+    case "paragraph":
+      return `<p>${kids()}</p>\n`;
+    case "heading": {
+      const h = `h${headingLevel(attrs.level)}`;
+      return `<${h}>${kids()}</${h}>\n`;
+    }
+    case "list": {
+      const l = isOrdered(node) ? "ol" : "ul";
+      return `<${l}>\n${kids()}</${l}>\n`;
+    }
+    case "list-item":
+      return `<li>${kids()}</li>\n`;
+    case "bold":
+      return `<strong>${kids()}</strong>`;
+    case "italic":
+      return `<em>${kids()}</em>`;
+    case "underline":
+      return `<u>${kids()}</u>`;
+    case "code":
+      return `<code>${escapeHtml(edTextContent(children))}</code>`;
+    case "pre":
+      return `<pre>${escapeHtml(edTextContent(children))}</pre>\n`;
+    case "blockquote":
+      return `<blockquote>${kids()}</blockquote>\n`;
+    case "break":
+      return "<br>";
+    case "figure":
+      return `<figure>${kids()}</figure>\n`;
+    case "image": {
+      const src = safeUrl(attrs.src);
+      return src ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(attrs.alt ?? "")}">` : escapeHtml(attrs.alt ?? "");
+    }
+    case "link":
+      return link(attrs.href, children.length > 0 ? kids() : escapeHtml(attrs.href ?? ""));
+    case "file":
+      return attrs.url ? `<p>📎 ${link(attrs.url, escapeHtml(fileName(attrs)))}</p>\n` : "";
+    case "video":
+      return attrs.src ? `<p>🎬 ${link(attrs.src, "Video")}</p>\n` : "";
+    case "math": {
+      const source = escapeHtml(edTextContent(children));
+      return parentTag && INLINE_PARENTS.has(parentTag)
+        ? `<code class="math">${source}</code>`
+        : `<pre class="math">${source}</pre>\n`;
+    }
+    default:
+      return kids();
+  }
+}
+
+/** Static HTML for an Ed XML body, or paragraphs of the plain-text fallback when there is no XML. */
+export function edToHtml(xml: string | undefined, fallbackText = ""): string {
+  const nodes = parseEdDocument(xml ?? "");
+  if (nodes.length > 0) return htmlNodes(nodes, null);
+  return fallbackText
+    .split("\n\n")
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => `<p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>\n`)
+    .join("");
+}
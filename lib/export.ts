@@ -0,0 +1,149 @@
+import { edToHtml, edToMarkdown, escapeHtml } from "@/lib/edSerialize";
+import { LabelSource, Post, TAG_KINDS, normalizeTagLabel, postTags, safeDate } from "@/lib/posts";
+
+// Serialisers for the explorer's export menu. Each takes the posts in display order.
+
+export type ExportFormat = "jsonl" | "csv" | "markdown" | "html";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mime: string }> = {
+  jsonl: { label: "JSONL (original records)", extension: "jsonl", mime: "application/x-ndjson" },
+  csv: { label: "CSV (spreadsheet)", extension: "csv", mime: "text/csv" },
+  markdown: { label: "Markdown digest", extension: "md", mime: "text/markdown" },
+  html: { label: "HTML digest", extension: "html", mime: "text/html" },
+};
+
+/** One record per line, exactly as loaded. */
+export function postsToJSONL(posts: Post[]): string {
+  return posts.map((p) => JSON.stringify(p)).join("\n") + (posts.length > 0 ? "\n" : "");
+}
+
+/**
+ * One CSV cell, quoted when needed. Text starting with a formula character gets
+ * a leading `'` so spreadsheets show it instead of evaluating it.
+ */
+export function csvField(value: string | number | null | undefined): string {
+  let s = value == null ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(header: string[], rows: (string | number | null | undefined)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function isoDate(value: string | number | undefined) {
+  return safeDate(value)?.toISOString() ?? "";
+}
+
+/** Tags within a group are joined with "; " so each group stays one column. */
+export function postsToCSV(posts: Post[], source: LabelSource = "llm"): string {
+  const header = ["thread_id", "title", "author", "date", ...TAG_KINDS, "views", "votes", "replies", "stars"];
+  const rows = posts.map((p) => [
+    p.thread_id,
+    p.title,
+    p.author_name,
+    isoDate(p.created_at),
+    ...TAG_KINDS.map((kind) => postTags(p, kind, source).join("; ")),
+    p.raw?.view_count ?? 0,
+    p.raw?.vote_count ?? 0,
+    p.raw?.reply_count ?? 0,
+    p.raw?.star_count ?? 0,
+  ]);
+  return toCSV(header, rows);
+}
+
+function tagList(post: Post, source: LabelSource): string[] {
+  return TAG_KINDS.flatMap((kind) => postTags(post, kind, source).map(normalizeTagLabel));
+}
+
+function dateLabel(value: string | number | undefined) {
+  return safeDate(value)?.toLocaleDateString() ?? "Unknown date";
+}
+
+export function postsToMarkdown(posts: Post[], source: LabelSource = "llm", title = "Posts digest"): string {
+  const parts = [`# ${title}\n\n${posts.length} posts · exported ${new Date().toLocaleString()}`];
+  for (const p of posts) {
+    const tags = tagList(p, source);
+    parts.push(
+      [
+        `## ${p.title ?? "Untitled"}`,
+        `**Author:** ${p.author_name ?? "Unknown Author"} · **Date:** ${dateLabel(p.created_at)}` +
+          (p.thread_id != null ? ` · **Thread:** ${p.thread_id}` : ""),
+        tags.length > 0 ? `**Tags:** ${tags.map((t) => `\`${t}\``).join(" ")}` : "",
+        edToMarkdown(p.raw?.content, p.document ?? p.raw?.document ?? ""),
+      ]
+        .filter(Boolean)
+        .join("\n\n")
+    );
+  }
+  return parts.join("\n\n---\n\n") + "\n";
+}
+
+const DIGEST_CSS = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif; max-width: 860px; margin: 40px auto; padding: 0 20px; color: #2c3e50; line-height: 1.6; }
+article { border-top: 1px solid #e0e0e0; padding-top: 20px; margin-top: 30px; }
+.meta { color: #7f8c8d; font-size: 14px; }
+.tag { display: inline-block; background: #e8f4f8; color: #2980b9; padding: 2px 8px; border-radius: 10px; font-size: 12px; margin-right: 4px; }
+pre { background: #f4f4f7; padding: 12px 15px; border-radius: 6px; overflow-x: auto; }
+code { background: #f4f4f7; padding: 1px 5px; border-radius: 4px; }
+blockquote { border-left: 4px solid #667eea; margin: 0; padding: 5px 15px; color: #555; }
+img { max-width: 100%; }
+`;
+
+export function postsToHTML(posts: Post[], source: LabelSource = "llm", title = "Posts digest"): string {
+  const articles = posts.map((p) => {
+    const tags = tagList(p, source);
+    return [
+      "<article>",
+      `<h2>${escapeHtml(p.title ?? "Untitled")}</h2>`,
+      `<p class="meta">${escapeHtml(p.author_name ?? "Unknown Author")} · ${escapeHtml(dateLabel(p.created_at))}` +
+        (p.thread_id != null ? ` · Thread ${p.thread_id}` : "") +
+        "</p>",
+      tags.length > 0 ? `<p>${tags.map((t) => `<span class="tag">${escapeHtml(t)}</span>`).join("")}</p>` : "",
+      edToHtml(p.raw?.content, p.document ?? p.raw?.document ?? ""),
+      "</article>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${DIGEST_CSS}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${posts.length} posts · exported ${escapeHtml(new Date().toLocaleString())}</p>
+${articles.join("\n")}
+</body>
+</html>
+`;
+}
+
+export function exportPosts(format: ExportFormat, posts: Post[], source: LabelSource = "llm"): string {
+  switch (format) {
+    case "jsonl":
+      return postsToJSONL(posts);
+    case "csv":
+      return postsToCSV(posts, source);
+    case "markdown":
+      return postsToMarkdown(posts, source);
+    case "html":
+      return postsToHTML(posts, source);
+  }
+}
+
+/** Saves `text` as a file through a temporary object URL. Browser only. */
+export function downloadText(text: string, filename: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
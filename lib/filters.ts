@@ -0,0 +1,242 @@
+import { PersonalFilter, PersonalState, isPersonalFilter, matchesPersonalFilters } from "@/lib/personal";
+import { LabelSource, Post, TAG_KINDS, TagKind, postTags } from "@/lib/posts";
+import { ReviewState, ReviewStatus, isReviewStatus, matchesReviewFilters } from "@/lib/review";
+import { SearchIndex, search } from "@/lib/search";
+import { DEFAULT_SORT, DEFAULT_SORT_DIR, SortDir, SortKey, isSortKey, sortPosts } from "@/lib/sort";
+
+// "any" = OR within the group, "all" = AND. Groups are always ANDed together.
+export type TagMode = "any" | "all";
+
+export type TagGroupFilter = {
+  include: Set<string>;
+  exclude: Set<string>;
+  mode: TagMode;
+};
+
+export type TagState = "include" | "exclude" | "neutral";
+
+export type ActiveFilters = {
+  query: string;
+  title: string;
+  author: string;
+  models: TagGroupFilter;
+  topics: TagGroupFilter;
+  assignments: TagGroupFilter;
+  labels: LabelSource;
+  // Starred / unread / has-notes, checked against the viewer's own saved state
+  mine: Set<PersonalFilter>;
+  // only posts in a near-duplicate cluster
+  dupes: boolean;
+  // staff review statuses, ORed together
+  review: Set<ReviewStatus>;
+  sort: SortKey;
+  sortDir: SortDir;
+};
+
+// Query-string keys for each filter field. A tag group uses `<kind>`, `<kind>_exclude` and `<kind>_mode`.
+const TEXT_PARAMS = { query: "q", title: "title", author: "author" } as const;
+
+export function emptyTagGroup(): TagGroupFilter {
+  return { include: new Set(), exclude: new Set(), mode: "any" };
+}
+
+export function emptyFilters(): ActiveFilters {
+  return {
+    query: "",
+    title: "",
+    author: "",
+    models: emptyTagGroup(),
+    topics: emptyTagGroup(),
+    assignments: emptyTagGroup(),
+    labels: "llm",
+    mine: new Set(),
+    dupes: false,
+    review: new Set(),
+    sort: DEFAULT_SORT,
+    sortDir: DEFAULT_SORT_DIR,
+  };
+}
+
+export function tagState(group: TagGroupFilter, tag: string): TagState {
+  if (group.include.has(tag)) return "include";
+  if (group.exclude.has(tag)) return "exclude";
+  return "neutral";
+}
+
+/** Next state when a chip is clicked: neutral -> include -> exclude -> neutral. */
+export function cycleTag(group: TagGroupFilter, tag: string): TagGroupFilter {
+  const include = new Set(group.include);
+  const exclude = new Set(group.exclude);
+  const state = tagState(group, tag);
+  include.delete(tag);
+  exclude.delete(tag);
+  if (state === "neutral") include.add(tag);
+  else if (state === "include") exclude.add(tag);
+  return { ...group, include, exclude };
+}
+
+export function hasTagFilters(group: TagGroupFilter) {
+  return group.include.size > 0 || group.exclude.size > 0;
+}
+
+function joinTags(tags: Set<string>) {
+  return Array.from(tags).sort().join(",");
+}
+
+function splitTags(params: URLSearchParams, key: string) {
+  const values = params.getAll(key).flatMap((v) => v.split(","));
+  return new Set(values.map((v) => v.trim()).filter(Boolean));
+}
+
+/** Tags are comma-joined and sorted so equal filters always give equal URLs. */
+export function filtersToSearchParams(filters: ActiveFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [field, key] of Object.entries(TEXT_PARAMS) as [keyof typeof TEXT_PARAMS, string][]) {
+    if (filters[field].trim()) params.set(key, filters[field]);
+  }
+  for (const kind of TAG_KINDS) {
+    const group = filters[kind];
+    if (group.include.size > 0) params.set(kind, joinTags(group.include));
+    if (group.exclude.size > 0) params.set(`${kind}_exclude`, joinTags(group.exclude));
+    if (group.mode !== "any") params.set(`${kind}_mode`, group.mode);
+  }
+  if (filters.labels !== "llm") params.set("labels", filters.labels);
+  if (filters.mine.size > 0) params.set("mine", joinTags(filters.mine));
+  if (filters.dupes) params.set("dupes", "1");
+  if (filters.review.size > 0) params.set("review", joinTags(filters.review));
+  if (filters.sort !== DEFAULT_SORT) params.set("sort", filters.sort);
+  if (filters.sortDir !== DEFAULT_SORT_DIR) params.set("dir", filters.sortDir);
+  return params;
+}
+
+export function filtersFromSearchParams(params: URLSearchParams): ActiveFilters {
+  const filters = emptyFilters();
+  for (const [field, key] of Object.entries(TEXT_PARAMS) as [keyof typeof TEXT_PARAMS, string][]) {
+    filters[field] = params.get(key) ?? "";
+  }
+  for (const kind of TAG_KINDS) {
+    const include = splitTags(params, kind);
+    const exclude = splitTags(params, `${kind}_exclude`);
+    for (const tag of include) exclude.delete(tag);
+    filters[kind] = { include, exclude, mode: params.get(`${kind}_mode`) === "all" ? "all" : "any" };
+  }
+  if (params.get("labels") === "heuristic") filters.labels = "heuristic";
+  filters.mine = new Set(Array.from(splitTags(params, "mine")).filter(isPersonalFilter));
+  filters.dupes = params.get("dupes") === "1";
+  filters.review = new Set(Array.from(splitTags(params, "review")).filter(isReviewStatus));
+  const sort = params.get("sort");
+  if (isSortKey(sort)) filters.sort = sort;
+  if (params.get("dir") === "asc") filters.sortDir = "asc";
+  return filters;
+}
+
+export function filtersQueryString(filters: ActiveFilters): string {
+  const qs = filtersToSearchParams(filters).toString();
+  return qs ? `?${qs}` : "";
+}
+
+/** Filter inputs that only exist in the browser: the viewer's saved state, grades and the duplicate scan. */
+export type ClientFilterData = {
+  personal: PersonalState;
+  review: ReviewState;
+  duplicates: ReadonlySet<Post>;
+};
+
+function matchesExclusions(tags: string[], group: TagGroupFilter) {
+  for (const tag of group.exclude) if (tags.includes(tag)) return false;
+  return true;
+}
+
+function matchesInclusions(tags: string[], group: TagGroupFilter) {
+  if (group.include.size === 0) return true;
+  if (group.mode === "all") {
+    for (const tag of group.include) if (!tags.includes(tag)) return false;
+    return true;
+  }
+  for (const tag of group.include) if (tags.includes(tag)) return true;
+  return false;
+}
+
+function matchesGroup(post: Post, kind: TagKind, group: TagGroupFilter, source: LabelSource) {
+  const tags = postTags(post, kind, source);
+  return matchesExclusions(tags, group) && matchesInclusions(tags, group);
+}
+
+/**
+ * Query, title, author, personal, review and duplicate filters. Ranked by
+ * relevance when there is a query. The last three only apply when `client` is
+ * given; the server has none of them and ignores them.
+ */
+function textMatches(posts: Post[], filters: ActiveFilters, index: SearchIndex, client?: ClientFilterData): Post[] {
+  const titleQ = filters.title.trim().toLowerCase();
+  const authorQ = filters.author.trim().toLowerCase();
+
+  const candidates = filters.query.trim() ? search(index, filters.query).map((h) => posts[h.doc]) : posts;
+
+  return candidates.filter((post) => {
+    if (titleQ && !post.title?.toLowerCase().includes(titleQ)) return false;
+    if (authorQ && !post.author_name?.toLowerCase().includes(authorQ)) return false;
+    if (client && !matchesPersonalFilters(post, filters.mine, client.personal)) return false;
+    if (client && !matchesReviewFilters(post, filters.review, client.review)) return false;
+    if (client && filters.dupes && !client.duplicates.has(post)) return false;
+    return true;
+  });
+}
+
+/**
+ * Applies every filter to `posts`, then the chosen sort. Relevance order is
+ * the search ranking with a full-text query, and the input order without one.
+ */
+export function filterPosts(
+  posts: Post[],
+  filters: ActiveFilters,
+  index: SearchIndex,
+  client?: ClientFilterData
+): Post[] {
+  const matched = textMatches(posts, filters, index, client).filter((post) =>
+    TAG_KINDS.every((kind) => matchesGroup(post, kind, filters[kind], filters.labels))
+  );
+  return sortPosts(matched, filters.sort, filters.sortDir);
+}
+
+export type FacetCounts = Record<TagKind, Record<string, number>>;
+
+/** Number of posts carrying each tag, per tag group. */
+export function facetCounts(posts: Post[], source: LabelSource = "llm"): FacetCounts {
+  const counts: FacetCounts = { models: {}, topics: {}, assignments: {} };
+  for (const post of posts) {
+    for (const kind of TAG_KINDS) {
+      for (const tag of new Set(postTags(post, kind, source))) counts[kind][tag] = (counts[kind][tag] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * For every tag chip, how many posts the result would hold if that tag were
+ * included, given everything else currently selected. In an "any" group the
+ * group's other inclusions are ignored, since adding a tag there widens the
+ * result; in an "all" group they still apply, since adding one narrows it.
+ */
+export function tagChipCounts(
+  posts: Post[],
+  filters: ActiveFilters,
+  index: SearchIndex,
+  client?: ClientFilterData
+): FacetCounts {
+  const base = textMatches(posts, filters, index, client);
+  const counts: FacetCounts = { models: {}, topics: {}, assignments: {} };
+
+  for (const kind of TAG_KINDS) {
+    const group = filters[kind];
+    const others = TAG_KINDS.filter((k) => k !== kind);
+    for (const post of base) {
+      if (!others.every((k) => matchesGroup(post, k, filters[k], filters.labels))) continue;
+      const tags = postTags(post, kind, filters.labels);
+      if (!matchesExclusions(tags, group)) continue;
+      if (group.mode === "all" && !matchesInclusions(tags, group)) continue;
+      for (const tag of new Set(tags)) counts[kind][tag] = (counts[kind][tag] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,68 @@
+import { ATTACHMENT_KIND_LABELS, AttachmentKind, classifyAttachment, fileExtension } from "@/lib/attachments";
+import { parseEdDocument, walkEdElements } from "@/lib/edDocument";
+import { Post, postTags, safeDate } from "@/lib/posts";
+
+// Every attachment, image and video across the dataset, flattened for the gallery page.
+
+export type GalleryItem = {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  url: string;
+  typeLabel: string;
+  threadId: number;
+  postTitle: string;
+  author: string;
+  created: string | null;
+  models: string[];
+  topics: string[];
+};
+
+function lastSegment(url: string) {
+  return url.split(/[?#]/)[0].split("/").pop() || url;
+}
+
+function isYouTube(url: string) {
+  return /(^|\/\/)(www\.)?(youtube\.com|youtu\.be)\//.test(url);
+}
+
+/** Media found in one post's body, in document order. */
+export function postMedia(post: Post): GalleryItem[] {
+  if (post.thread_id == null) return [];
+  const base = {
+    threadId: post.thread_id,
+    postTitle: post.title ?? "Untitled",
+    author: post.author_name ?? "Unknown Author",
+    created: safeDate(post.created_at)?.toISOString() ?? null,
+    models: postTags(post, "models"),
+    topics: postTags(post, "topics"),
+  };
+
+  const items: GalleryItem[] = [];
+  walkEdElements(parseEdDocument(post.raw?.content ?? ""), (el) => {
+    const id = `${post.thread_id}-${items.length}`;
+    if (el.tag === "file") {
+      const a = classifyAttachment(el.attrs);
+      if (a) items.push({ ...base, id, kind: a.kind, name: a.name, url: a.url, typeLabel: a.typeLabel });
+    } else if (el.tag === "image" && el.attrs.src) {
+      const name = lastSegment(el.attrs.src);
+      const ext = fileExtension(name);
+      items.push({ ...base, id, kind: "image", name, url: el.attrs.src, typeLabel: ext ? `${ext.toUpperCase()} image` : "Image" });
+    } else if (el.tag === "video" && el.attrs.src) {
+      const youtube = isYouTube(el.attrs.src);
+      items.push({
+        ...base,
+        id,
+        kind: "video",
+        name: youtube ? "YouTube video" : lastSegment(el.attrs.src),
+        url: el.attrs.src,
+        typeLabel: youtube ? "YouTube video" : ATTACHMENT_KIND_LABELS.video,
+      });
+    }
+  });
+  return items;
+}
+
+export function collectMedia(posts: Post[]): GalleryItem[] {
+  return posts.flatMap(postMedia);
+}
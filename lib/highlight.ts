@@ -0,0 +1,90 @@
+import hljs from "highlight.js/lib/core";
+import bash from "highlight.js/lib/languages/bash";
+import c from "highlight.js/lib/languages/c";
+import cpp from "highlight.js/lib/languages/cpp";
+import css from "highlight.js/lib/languages/css";
+import java from "highlight.js/lib/languages/java";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import latex from "highlight.js/lib/languages/latex";
+import markdown from "highlight.js/lib/languages/markdown";
+import matlab from "highlight.js/lib/languages/matlab";
+import plaintext from "highlight.js/lib/languages/plaintext";
+import python from "highlight.js/lib/languages/python";
+import r from "highlight.js/lib/languages/r";
+import sql from "highlight.js/lib/languages/sql";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import yaml from "highlight.js/lib/languages/yaml";
+
+// Only the languages that show up in course posts are registered, to keep the bundle small.
+const LANGUAGES = {
+  bash,
+  c,
+  cpp,
+  css,
+  java,
+  javascript,
+  json,
+  latex,
+  markdown,
+  matlab,
+  plaintext,
+  python,
+  r,
+  sql,
+  typescript,
+  xml,
+  yaml,
+};
+
+for (const [name, lang] of Object.entries(LANGUAGES)) hljs.registerLanguage(name, lang);
+
+// Auto-detection is only trusted with at least this relevance, and at least one point per
+// non-blank line; below that it is usually prose (prompts, logs) matching by accident.
+const MIN_AUTO_RELEVANCE = 5;
+// Candidates for auto-detection. SQL, CSS, YAML and MATLAB are left out because English prompts
+// score well on them; they are still used when a block names them explicitly.
+const AUTO_LANGUAGES = [
+  "bash",
+  "c",
+  "cpp",
+  "java",
+  "javascript",
+  "json",
+  "latex",
+  "markdown",
+  "python",
+  "r",
+  "typescript",
+  "xml",
+];
+
+export type Highlighted = { html: string; language: string | null };
+
+/** True when `language` (a name or alias such as "py") is registered. */
+export function isKnownLanguage(language: string | null | undefined): language is string {
+  return !!language && !!hljs.getLanguage(language);
+}
+
+/** Display name for a registered language, e.g. "Python" for "py". */
+export function languageName(language: string): string {
+  return hljs.getLanguage(language)?.name ?? language;
+}
+
+/**
+ * Highlighted HTML for `code`. Uses `language` when it is known, otherwise
+ * auto-detects among the registered languages and falls back to plain text
+ * when nothing fits well. The result is escaped and safe to inject.
+ */
+export function highlightCode(code: string, language?: string | null): Highlighted {
+  if (isKnownLanguage(language)) {
+    return { html: hljs.highlight(code, { language, ignoreIllegals: true }).value, language };
+  }
+  const auto = hljs.highlightAuto(code, AUTO_LANGUAGES);
+  const lines = code.split("\n").filter((l) => l.trim()).length;
+  if (auto.language && auto.relevance >= Math.max(MIN_AUTO_RELEVANCE, lines)) {
+    return { html: auto.value, language: auto.language };
+  }
+  return { html: hljs.highlight(code, { language: "plaintext" }).value, language: null };
+}
@@ -0,0 +1,259 @@
+import { Post } from "@/lib/posts";
+
+// Tolerant dataset loading: every record is checked against POST_SCHEMA, bad ones are
+// skipped and reported instead of failing the whole load.
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array" | "string[]";
+
+type FieldSpec = {
+  path: string;
+  type: FieldType | FieldType[];
+  required?: boolean;
+};
+
+/**
+ * Fields the UI relies on. Required fields must be present and non-null;
+ * optional ones may be missing or null but must have the right type if set.
+ */
+export const POST_SCHEMA: FieldSpec[] = [
+  { path: "thread_id", type: "number", required: true },
+  { path: "title", type: "string", required: true },
+  { path: "author_name", type: "string" },
+  { path: "author_user_id", type: "number" },
+  { path: "author_role", type: "string" },
+  { path: "created_at", type: ["string", "number"] },
+  { path: "updated_at", type: ["string", "number"] },
+  { path: "ingested_at", type: "string" },
+  { path: "document", type: "string" },
+  { path: "raw", type: "object" },
+  { path: "raw.content", type: "string" },
+  { path: "raw.document", type: "string" },
+  { path: "raw.comments", type: "array" },
+  { path: "raw.answers", type: "array" },
+  { path: "raw.view_count", type: "number" },
+  { path: "raw.vote_count", type: "number" },
+  { path: "raw.star_count", type: "number" },
+  { path: "raw.reply_count", type: "number" },
+  { path: "cluster_metadata", type: "object" },
+  { path: "cluster_metadata.model_ids", type: "string[]" },
+  { path: "cluster_metadata.topic_category_ids", type: "string[]" },
+  { path: "cluster_metadata.post_type_category_ids", type: "string[]" },
+  { path: "cluster_metadata_heuristic", type: "object" },
+  { path: "cluster_metadata_heuristic.model_ids", type: "string[]" },
+  { path: "cluster_metadata_heuristic.topic_category_ids", type: "string[]" },
+  { path: "cluster_metadata_heuristic.post_type_category_ids", type: "string[]" },
+];
+
+export type DatasetFormat = "jsonl" | "json-array" | "json-object";
+
+export type SkippedRecord = {
+  // 1-based line number for JSONL, record position for JSON arrays
+  line: number;
+  reason: string;
+};
+
+export type LoadReport = {
+  source: string;
+  format: DatasetFormat;
+  totalRecords: number;
+  loaded: number;
+  skipped: SkippedRecord[];
+  // required field path -> number of records skipped for lacking it
+  missingRequired: Record<string, number>;
+  // distinct cluster_metadata.label_version values
+  versions: string[];
+  // set when loading was stopped before the end of the input
+  cancelled?: boolean;
+};
+
+export type IngestResult = { posts: Post[]; report: LoadReport };
+
+function typeOf(value: unknown): FieldType {
+  if (Array.isArray(value)) return value.every((v) => typeof v === "string") ? "string[]" : "array";
+  return typeof value as FieldType;
+}
+
+function getPath(record: Record<string, unknown>, path: string): unknown {
+  let value: unknown = record;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function matchesType(value: unknown, expected: FieldType | FieldType[]): boolean {
+  const actual = typeOf(value);
+  return (Array.isArray(expected) ? expected : [expected]).some(
+    (t) => t === actual || (t === "array" && actual === "string[]")
+  );
+}
+
+/** Validation problems for one parsed record; empty when it is usable. */
+export function validateRecord(record: unknown): { errors: string[]; missing: string[] } {
+  if (record === null || typeof record !== "object" || Array.isArray(record)) {
+    const got = Array.isArray(record) ? "array" : record === null ? "null" : typeof record;
+    return { errors: [`expected an object, got ${got}`], missing: [] };
+  }
+
+  const errors: string[] = [];
+  const missing: string[] = [];
+  for (const spec of POST_SCHEMA) {
+    const value = getPath(record as Record<string, unknown>, spec.path);
+    if (value === undefined || value === null) {
+      if (spec.required) {
+        missing.push(spec.path);
+        errors.push(`missing required field "${spec.path}"`);
+      }
+    } else if (!matchesType(value, spec.type)) {
+      const expected = Array.isArray(spec.type) ? spec.type.join(" | ") : spec.type;
+      errors.push(`"${spec.path}" should be ${expected}, got ${typeOf(value)}`);
+    }
+  }
+  return { errors, missing };
+}
+
+/** JSON array, single JSON object, or JSONL, decided by content rather than file name. */
+export function detectFormat(text: string): DatasetFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[")) return "json-array";
+  if (trimmed.startsWith("{")) {
+    try {
+      JSON.parse(trimmed);
+      return "json-object";
+    } catch {
+      // several objects, one per line
+    }
+  }
+  return "jsonl";
+}
+
+export function emptyReport(source: string, format: DatasetFormat = "jsonl"): LoadReport {
+  return { source, format, totalRecords: 0, loaded: 0, skipped: [], missingRequired: {}, versions: [] };
+}
+
+/** Checks one raw record and files it into `posts` or `report.skipped`. */
+function ingestRecord(record: unknown, line: number, posts: Post[], report: LoadReport) {
+  report.totalRecords++;
+  const { errors, missing } = validateRecord(record);
+  for (const field of missing) report.missingRequired[field] = (report.missingRequired[field] ?? 0) + 1;
+  if (errors.length > 0) {
+    report.skipped.push({ line, reason: errors.join("; ") });
+    return;
+  }
+  const post = record as Post;
+  const version = post.cluster_metadata?.label_version;
+  if (version && !report.versions.includes(version)) report.versions.push(version);
+  posts.push(post);
+  report.loaded++;
+}
+
+/** Parses and checks one JSONL line. Blank lines are not records. */
+function ingestLine(raw: string, line: number, posts: Post[], report: LoadReport) {
+  const text = raw.trim();
+  if (!text) return;
+  let record: unknown;
+  try {
+    record = JSON.parse(text);
+  } catch (e) {
+    report.totalRecords++;
+    report.skipped.push({ line, reason: `invalid JSON: ${e instanceof Error ? e.message : String(e)}` });
+    return;
+  }
+  ingestRecord(record, line, posts, report);
+}
+
+/** Parses a whole dataset file. Never throws; problems end up in the report. */
+export function parseDataset(text: string, source = "posts.jsonl"): IngestResult {
+  const format = detectFormat(text);
+  const report = emptyReport(source, format);
+  const posts: Post[] = [];
+
+  if (format === "jsonl") {
+    text.split("\n").forEach((raw, i) => ingestLine(raw, i + 1, posts, report));
+  } else {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      report.skipped.push({ line: 1, reason: `invalid JSON: ${e instanceof Error ? e.message : String(e)}` });
+      return { posts, report };
+    }
+    const records = Array.isArray(data) ? data : [data];
+    records.forEach((record, i) => ingestRecord(record, i + 1, posts, report));
+  }
+
+  report.versions.sort();
+  return { posts, report };
+}
+
+/** Error text for a load that produced no usable records. */
+export function emptyLoadMessage(report: LoadReport): string {
+  if (report.totalRecords === 0 && report.skipped.length === 0) return `${report.source} contains no records`;
+  const first = report.skipped[0];
+  return `No valid records in ${report.source} (${report.skipped.length} skipped${
+    first ? `; first problem at line ${first.line}: ${first.reason}` : ""
+  })`;
+}
+
+export type DatasetStream = {
+  /** Feeds the next chunk of text and returns the posts it completed. */
+  push(chunk: string): Post[];
+  /** Handles whatever is still buffered and returns the remaining posts. */
+  end(): Post[];
+  // updated in place as records are processed
+  report: LoadReport;
+};
+
+/**
+ * Incremental version of parseDataset for text that arrives in chunks. JSONL is
+ * processed line by line as it comes in; a JSON array or pretty-printed object
+ * can only be parsed once complete, so it is buffered until `end()`.
+ */
+export function createDatasetStream(source: string): DatasetStream {
+  const report = emptyReport(source);
+  let mode: "detect" | "jsonl" | "json" = "detect";
+  let pending = "";
+  let line = 0;
+
+  function detect() {
+    const trimmed = pending.trimStart();
+    if (!trimmed) return;
+    if (trimmed.startsWith("[")) {
+      mode = "json";
+      return;
+    }
+    const nl = trimmed.indexOf("\n");
+    if (nl === -1) return; // wait for the first full line
+    mode = trimmed.startsWith("{") && detectFormat(trimmed.slice(0, nl)) !== "json-object" ? "json" : "jsonl";
+  }
+
+  function takeLines(all: boolean): Post[] {
+    const posts: Post[] = [];
+    const lines = pending.split("\n");
+    pending = all ? "" : (lines.pop() ?? "");
+    for (const raw of lines) ingestLine(raw, ++line, posts, report);
+    return posts;
+  }
+
+  return {
+    report,
+    push(chunk) {
+      pending += chunk;
+      if (mode === "detect") detect();
+      return mode === "jsonl" ? takeLines(false) : [];
+    },
+    end() {
+      if (mode === "detect") detect();
+      if (mode === "json" || (mode === "detect" && pending.trim())) {
+        const result = parseDataset(pending, source);
+        pending = "";
+        Object.assign(report, result.report);
+        return result.posts;
+      }
+      const posts = takeLines(true);
+      report.versions.sort();
+      return posts;
+    },
+  };
+}
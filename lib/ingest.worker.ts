@@ -0,0 +1,54 @@
+import { createDatasetStream } from "@/lib/ingest";
+import type { IngestMessage, IngestRequest } from "@/lib/ingestWorker";
+import { Post } from "@/lib/posts";
+
+// Streams a dataset off the main thread. Started by startIngest in lib/ingestWorker.ts.
+
+// How often parsed posts are sent back while the rest of the input loads
+const BATCH_INTERVAL_MS = 200;
+
+function send(message: IngestMessage) {
+  postMessage(message);
+}
+
+async function openStream(input: IngestRequest["input"]) {
+  if ("file" in input) return { stream: input.file.stream(), totalBytes: input.file.size };
+
+  const res = await fetch(input.url, { cache: "no-store" });
+  if (!res.ok || !res.body) throw new Error(`Failed to load ${input.url}: ${res.status} ${res.statusText}`);
+  // Content-Length counts compressed bytes when the response is encoded, so it is only a hint
+  const length = Number(res.headers.get("content-length"));
+  const encoded = !!res.headers.get("content-encoding");
+  return { stream: res.body, totalBytes: length > 0 && !encoded ? length : null };
+}
+
+async function ingest({ input, source }: IngestRequest) {
+  const parser = createDatasetStream(source);
+  const { stream, totalBytes } = await openStream(input);
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+
+  let bytes = 0;
+  let batch: Post[] = [];
+  let lastSent = Date.now();
+  const progress = () => ({ bytes, totalBytes, records: parser.report.totalRecords, report: parser.report });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    batch.push(...parser.push(decoder.decode(value, { stream: true })));
+    if (Date.now() - lastSent >= BATCH_INTERVAL_MS) {
+      send({ type: "batch", posts: batch, ...progress() });
+      batch = [];
+      lastSent = Date.now();
+    }
+  }
+
+  batch.push(...parser.push(decoder.decode()), ...parser.end());
+  send({ type: "done", posts: batch, ...progress() });
+}
+
+addEventListener("message", (e: MessageEvent<IngestRequest>) => {
+  ingest(e.data).catch((err) => send({ type: "error", message: err instanceof Error ? err.message : String(err) }));
+});
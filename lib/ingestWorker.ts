@@ -0,0 +1,149 @@
+import { LoadReport, emptyReport } from "@/lib/ingest";
+import { MergeResult, SourcedPosts, mergePosts } from "@/lib/merge";
+import { Post } from "@/lib/posts";
+
+// Main-thread side of lib/ingest.worker.ts: streams a URL or File through the
+// worker and hands back posts in batches as they are parsed.
+
+// How often streamed batches are merged into the posts handed to `onUpdate`. Each merge copies
+// every post loaded so far and makes the page refilter, so batches are folded in at this pace
+// rather than every time the worker sends one.
+const MERGE_INTERVAL_MS = 1000;
+
+export type IngestInput = { url: string } | { file: File };
+
+export type IngestRequest = { input: IngestInput; source: string };
+
+export type IngestProgress = {
+  bytes: number;
+  // null when the server sends no Content-Length
+  totalBytes: number | null;
+  records: number;
+};
+
+export type IngestMessage =
+  | ({ type: "batch"; posts: Post[]; report: LoadReport } & IngestProgress)
+  | ({ type: "done"; posts: Post[]; report: LoadReport } & IngestProgress)
+  | { type: "error"; message: string };
+
+export type IngestOutcome = { report: LoadReport; cancelled: boolean };
+
+export type IngestJob = {
+  done: Promise<IngestOutcome>;
+  /** Stops the worker. Posts already delivered stay delivered; `done` resolves as cancelled. */
+  cancel: () => void;
+};
+
+/** Runs one input through a new worker. `onProgress` gets each batch of posts (possibly empty). */
+export function startIngest(
+  input: IngestInput,
+  source: string,
+  onProgress: (posts: Post[], progress: IngestProgress) => void
+): IngestJob {
+  const worker = new Worker(new URL("./ingest.worker.ts", import.meta.url));
+  let lastReport: LoadReport | null = null;
+  let settle: (outcome: IngestOutcome) => void = () => {};
+
+  const done = new Promise<IngestOutcome>((resolve, reject) => {
+    settle = (outcome) => {
+      worker.terminate();
+      resolve(outcome);
+    };
+    worker.onmessage = (e: MessageEvent<IngestMessage>) => {
+      const msg = e.data;
+      if (msg.type === "error") {
+        worker.terminate();
+        reject(new Error(msg.message));
+        return;
+      }
+      lastReport = msg.report;
+      onProgress(msg.posts, msg);
+      if (msg.type === "done") settle({ report: msg.report, cancelled: false });
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Ingestion worker failed"));
+    };
+  });
+
+  const request: IngestRequest = { input, source };
+  worker.postMessage(request);
+
+  return {
+    done,
+    cancel: () =>
+      settle({
+        report: lastReport ?? emptyReport(source),
+        cancelled: true,
+      }),
+  };
+}
+
+export type StreamUpdate = {
+  posts: Post[];
+  sources: Map<number, string>;
+  source: string;
+  fileIndex: number;
+  fileCount: number;
+  progress: IngestProgress;
+};
+
+export type StreamResult = { merged: MergeResult; reports: LoadReport[]; cancelled: boolean };
+
+/**
+ * Streams each request in turn, merging posts into `base` as batches arrive so
+ * they can be shown right away. Updates between merges carry the same `posts`
+ * array with fresh progress. The final result is one merge of everything
+ * against `base`, so its summary counts each thread once. `onJob` receives the
+ * running job (and null when it ends) so callers can offer a cancel button.
+ */
+export async function streamDatasets(
+  requests: IngestRequest[],
+  base: Post[],
+  baseSources: Map<number, string>,
+  onUpdate: (update: StreamUpdate) => void,
+  onJob: (job: IngestJob | null) => void
+): Promise<StreamResult> {
+  let posts = base;
+  let sources = baseSources;
+  const files: SourcedPosts[] = [];
+  const reports: LoadReport[] = [];
+  let cancelled = false;
+
+  for (const [fileIndex, { input, source }] of requests.entries()) {
+    const received: Post[] = [];
+    let pending: Post[] = [];
+    let lastMerge = 0;
+    const job = startIngest(input, source, (batch, progress) => {
+      for (const post of batch) {
+        received.push(post);
+        pending.push(post);
+      }
+      // The worker's final message is left to the one merge below
+      if (pending.length > 0 && Date.now() - lastMerge >= MERGE_INTERVAL_MS) {
+        ({ posts, sources } = mergePosts(posts, sources, [{ source, posts: pending }]));
+        pending = [];
+        lastMerge = Date.now();
+      }
+      onUpdate({ posts, sources, source, fileIndex, fileCount: requests.length, progress });
+    });
+    onJob(job);
+    try {
+      const outcome = await job.done;
+      files.push({ source, posts: received });
+      reports.push(outcome.cancelled ? { ...outcome.report, cancelled: true } : outcome.report);
+      cancelled = outcome.cancelled;
+    } finally {
+      onJob(null);
+    }
+    if (cancelled) break;
+  }
+
+  return { merged: mergePosts(base, baseSources, files), reports, cancelled };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
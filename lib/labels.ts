@@ -0,0 +1,59 @@
+import { Post, TAG_KINDS, TagKind, postTags } from "@/lib/posts";
+
+// Comparison of the LLM (`cluster_metadata`) and heuristic (`cluster_metadata_heuristic`) label sets.
+
+export type TagDiff = { shared: string[]; llmOnly: string[]; heuristicOnly: string[] };
+
+export type PostLabelDiff = Record<TagKind, TagDiff>;
+
+export type TagAgreement = {
+  kind: TagKind;
+  tag: string;
+  both: number;
+  llmOnly: number;
+  heuristicOnly: number;
+  // both / (posts where either source has the tag)
+  agreement: number;
+};
+
+export function postLabelDiff(post: Post): PostLabelDiff {
+  const diff = {} as PostLabelDiff;
+  for (const kind of TAG_KINDS) {
+    const llm = new Set(postTags(post, kind, "llm"));
+    const heuristic = new Set(postTags(post, kind, "heuristic"));
+    diff[kind] = {
+      shared: [...llm].filter((t) => heuristic.has(t)),
+      llmOnly: [...llm].filter((t) => !heuristic.has(t)),
+      heuristicOnly: [...heuristic].filter((t) => !llm.has(t)),
+    };
+  }
+  return diff;
+}
+
+export function labelsDisagree(diff: PostLabelDiff): boolean {
+  return TAG_KINDS.some((kind) => diff[kind].llmOnly.length > 0 || diff[kind].heuristicOnly.length > 0);
+}
+
+/** Per-tag agreement across `posts`, least reliable tags first. */
+export function tagAgreement(posts: Post[]): TagAgreement[] {
+  const rows = new Map<string, TagAgreement>();
+  const row = (kind: TagKind, tag: string) => {
+    const key = `${kind}:${tag}`;
+    let r = rows.get(key);
+    if (!r) rows.set(key, (r = { kind, tag, both: 0, llmOnly: 0, heuristicOnly: 0, agreement: 0 }));
+    return r;
+  };
+
+  for (const post of posts) {
+    const diff = postLabelDiff(post);
+    for (const kind of TAG_KINDS) {
+      diff[kind].shared.forEach((t) => row(kind, t).both++);
+      diff[kind].llmOnly.forEach((t) => row(kind, t).llmOnly++);
+      diff[kind].heuristicOnly.forEach((t) => row(kind, t).heuristicOnly++);
+    }
+  }
+
+  return Array.from(rows.values())
+    .map((r) => ({ ...r, agreement: r.both / (r.both + r.llmOnly + r.heuristicOnly) }))
+    .sort((a, b) => a.agreement - b.agreement || a.kind.localeCompare(b.kind) || a.tag.localeCompare(b.tag));
+}
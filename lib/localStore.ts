@@ -0,0 +1,57 @@
+export type LocalStore<T> = {
+  // What the store holds before anything is saved, and during server rendering
+  empty: T;
+  get: () => T;
+  set: (update: (prev: T) => T) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+/**
+ * A JSON value kept in localStorage under `key` and shared by every component
+ * that uses it, including those in other tabs. `read` turns stored JSON back
+ * into a value; if it throws, the store starts from `empty`.
+ */
+export function createLocalStore<T>(key: string, empty: T, read: (data: unknown) => T): LocalStore<T> {
+  let cached: T | undefined;
+  const listeners = new Set<() => void>();
+
+  function load(): T {
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? read(JSON.parse(raw)) : empty;
+    } catch {
+      return empty;
+    }
+  }
+
+  function get(): T {
+    if (cached === undefined) cached = load();
+    return cached;
+  }
+
+  function set(update: (prev: T) => T) {
+    cached = update(get());
+    try {
+      window.localStorage.setItem(key, JSON.stringify(cached));
+    } catch {
+      // Storage full or disabled: the change still holds for this session
+    }
+    listeners.forEach((l) => l());
+  }
+
+  function subscribe(listener: () => void) {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== key) return;
+      cached = undefined;
+      listener();
+    };
+    listeners.add(listener);
+    window.addEventListener("storage", onStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  }
+
+  return { empty, get, set, subscribe };
+}
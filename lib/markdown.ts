@@ -0,0 +1,138 @@
+import { EdElement, EdNode } from "@/lib/edDocument";
+import { splitMath } from "@/lib/math";
+
+// Reader for the Markdown in notebook cells. It covers the common block and
+// inline syntax and builds the same node tree as Ed documents, so EdContent
+// renders it (math included). Anything it does not know stays as text.
+
+// Code spans, math and backslash escapes are swapped for `\u0000<n>\u0000` before
+// the emphasis and link patterns run, so `_` and `*` inside them are left alone.
+const PLACEHOLDER_RE = /\u0000(\d+)\u0000/g;
+
+const INLINE_RE =
+  /!\[([^\]]*)\]\(([^)\s]+)[^)]*\)|\[([^\]]+)\]\(([^)\s]+)[^)]*\)|\*\*(.+?)\*\*|__(.+?)__|\*(\S(?:.*?\S)?)\*|(?<![\w\\])_(\S(?:.*?\S)?)_(?!\w)/g;
+
+function element(tag: string, children: EdNode[], attrs: Record<string, string> = {}): EdElement {
+  return { type: "element", tag, attrs, children };
+}
+
+type Protected = EdNode[];
+
+function protect(text: string, saved: Protected): string {
+  const save = (node: EdNode) => `\u0000${saved.push(node) - 1}\u0000`;
+  return text
+    .split(/(`+)([\s\S]*?[^`])\1(?!`)/)
+    .map((part, i) => {
+      // split() puts the backtick run at i % 3 == 1 and the code at i % 3 == 2
+      if (i % 3 === 1) return "";
+      if (i % 3 === 2) return save(element("code", [{ type: "text", text: part.trim() }]));
+      return splitMath(part)
+        .map((seg) =>
+          // Math goes back in as text with unambiguous delimiters for EdContent to typeset; a
+          // literal dollar is escaped again so it stays one
+          seg.type === "math"
+            ? save({ type: "text", text: seg.display ? `$$${seg.source}$$` : `\\(${seg.source}\\)` })
+            : seg.text
+                .replace(/\\([\\`*_[\]#+\-.!()>])/g, (_, ch: string) => save({ type: "text", text: ch }))
+                .replace(/\$/g, "\\$")
+        )
+        .join("");
+    })
+    .join("");
+}
+
+function restore(text: string, saved: Protected): EdNode[] {
+  const nodes: EdNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(PLACEHOLDER_RE)) {
+    if (m.index > last) nodes.push({ type: "text", text: text.slice(last, m.index) });
+    nodes.push(saved[Number(m[1])]);
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) nodes.push({ type: "text", text: text.slice(last) });
+  return nodes;
+}
+
+function inlineNodes(text: string, saved: Protected): EdNode[] {
+  const nodes: EdNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(INLINE_RE)) {
+    const [, alt, src, label, href, bold1, bold2, italic1, italic2] = m;
+    nodes.push(...restore(text.slice(last, m.index), saved));
+    if (src !== undefined) nodes.push(element("image", [], { src, alt }));
+    else if (href !== undefined) nodes.push(element("link", inlineNodes(label, saved), { href }));
+    else if (bold1 ?? bold2) nodes.push(element("bold", inlineNodes(bold1 ?? bold2, saved)));
+    else nodes.push(element("italic", inlineNodes(italic1 ?? italic2, saved)));
+    last = m.index + m[0].length;
+  }
+  nodes.push(...restore(text.slice(last), saved));
+  return nodes;
+}
+
+function inline(text: string): EdNode[] {
+  const saved: Protected = [];
+  return inlineNodes(protect(text, saved), saved);
+}
+
+const FENCE_RE = /^\s{0,3}(```+|~~~+)\s*([\w+#.-]*)/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM_RE = /^\s{0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+
+function startsBlock(line: string) {
+  return FENCE_RE.test(line) || HEADING_RE.test(line) || RULE_RE.test(line) || QUOTE_RE.test(line);
+}
+
+/** Parses Markdown into Ed nodes: headings, lists, quotes, fenced code and paragraphs with inline markup. */
+export function parseMarkdown(source: string): EdNode[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: EdNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let m: RegExpMatchArray | null;
+
+    if (!line.trim() || RULE_RE.test(line)) {
+      i++;
+    } else if ((m = line.match(FENCE_RE))) {
+      const fence = m[1];
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trimStart().startsWith(fence); i++) code.push(lines[i]);
+      i++;
+      blocks.push(element("pre", [{ type: "text", text: code.join("\n") }], m[2] ? { language: m[2] } : {}));
+    } else if ((m = line.match(HEADING_RE))) {
+      blocks.push(element("heading", inline(m[2]), { level: String(m[1].length) }));
+      i++;
+    } else if (QUOTE_RE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && (m = lines[i].match(QUOTE_RE)); i++) quoted.push(m[1]);
+      blocks.push(element("blockquote", parseMarkdown(quoted.join("\n"))));
+    } else if ((m = line.match(LIST_ITEM_RE))) {
+      const ordered = /\d/.test(m[1]);
+      const items: string[][] = [];
+      for (; i < lines.length; i++) {
+        const item = lines[i].match(LIST_ITEM_RE);
+        if (item && /\d/.test(item[1]) === ordered) items.push([item[2]]);
+        else if (lines[i].trim() && /^\s/.test(lines[i]) && !startsBlock(lines[i])) items[items.length - 1].push(lines[i]);
+        else break;
+      }
+      blocks.push(
+        element(
+          "list",
+          items.map((item) => element("list-item", inline(item.map((l) => l.trim()).join("\n")))),
+          { style: ordered ? "number" : "bullet" }
+        )
+      );
+    } else {
+      const para: string[] = [];
+      for (; i < lines.length && lines[i].trim() && (para.length === 0 || !startsBlock(lines[i])); i++) {
+        if (para.length > 0 && LIST_ITEM_RE.test(lines[i])) break;
+        para.push(lines[i].trim());
+      }
+      blocks.push(element("paragraph", inline(para.join("\n"))));
+    }
+  }
+  return blocks;
+}
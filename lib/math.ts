@@ -0,0 +1,83 @@
+import katex from "katex";
+
+// LaTeX typesetting with the bundled KaTeX (no network), plus detection of
+// `$...$`-style math inside plain text.
+
+export type RenderedMath = { html: string; error: null } | { html: null; error: string };
+
+/** KaTeX HTML for `source`, or the parse error message when it is not valid TeX. */
+export function renderMath(source: string, display: boolean): RenderedMath {
+  try {
+    const html = katex.renderToString(source, { displayMode: display, throwOnError: true, strict: "ignore" });
+    return { html, error: null };
+  } catch (e) {
+    return { html: null, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+export type TextSegment = { type: "text"; text: string } | { type: "math"; source: string; display: boolean };
+
+const DELIMITERS = [
+  { open: "$$", close: "$$", display: true },
+  { open: "\\[", close: "\\]", display: true },
+  { open: "\\(", close: "\\)", display: false },
+  { open: "$", close: "$", display: false },
+];
+
+/**
+ * End index of single-dollar inline math opened at `start`, or -1. Follows
+ * Pandoc's rule so prices like "$5 and $10" stay text: no space just inside
+ * either dollar, no line break, and no digit right after the closing one.
+ */
+function closeInlineDollar(text: string, start: number): number {
+  if (/\s/.test(text[start] ?? " ")) return -1;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\n") return -1;
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "$") {
+      if (i === start || /\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? "")) return -1;
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Splits text into plain runs and `$...$`, `$$...$$`, `\(...\)` and `\[...\]` math. `\$` is a literal dollar. */
+export function splitMath(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let buffer = "";
+  let i = 0;
+
+  while (i < text.length) {
+    if (text.startsWith("\\$", i)) {
+      buffer += "$";
+      i += 2;
+      continue;
+    }
+    const delim = DELIMITERS.find((d) => text.startsWith(d.open, i));
+    if (delim) {
+      const start = i + delim.open.length;
+      const end = delim.open === "$" ? closeInlineDollar(text, start) : text.indexOf(delim.close, start);
+      if (end > start && text.slice(start, end).trim()) {
+        if (buffer) segments.push({ type: "text", text: buffer });
+        buffer = "";
+        segments.push({ type: "math", source: text.slice(start, end).trim(), display: delim.display });
+        i = end + delim.close.length;
+        continue;
+      }
+    }
+    buffer += text[i];
+    i++;
+  }
+  if (buffer) segments.push({ type: "text", text: buffer });
+  return segments;
+}
+
+/** Cheap pre-check so text without any delimiter skips the scan. */
+export function mayContainMath(text: string): boolean {
+  return text.includes("$") || text.includes("\\(") || text.includes("\\[");
+}
@@ -0,0 +1,81 @@
+import { Post, safeDate } from "@/lib/posts";
+
+// Combining incremental ingestion snapshots. Records are matched on thread_id and the
+// newest copy (by updated_at, then ingested_at) wins.
+
+export type SourcedPosts = { source: string; posts: Post[] };
+
+export type MergeSummary = {
+  files: string[];
+  added: number;
+  updated: number;
+  unchanged: number;
+};
+
+export type MergeResult = {
+  posts: Post[];
+  // thread_id -> name of the file the kept copy came from
+  sources: Map<number, string>;
+  summary: MergeSummary;
+};
+
+function timeOf(value: string | number | null | undefined): number {
+  return safeDate(value)?.getTime() ?? -Infinity;
+}
+
+/** True when `candidate` should replace `current`. Ties go to the later file if the content differs. */
+function isNewer(candidate: Post, current: Post): boolean {
+  const byUpdate = timeOf(candidate.updated_at) - timeOf(current.updated_at);
+  if (byUpdate !== 0 && !Number.isNaN(byUpdate)) return byUpdate > 0;
+  const byIngest = timeOf(candidate.ingested_at) - timeOf(current.ingested_at);
+  if (byIngest !== 0 && !Number.isNaN(byIngest)) return byIngest > 0;
+  return JSON.stringify(candidate) !== JSON.stringify(current);
+}
+
+/**
+ * Merges `incoming` files, in order, into the already loaded `base` posts.
+ * Existing posts keep their position; new ones are appended. The summary
+ * counts each thread once, relative to `base`.
+ */
+export function mergePosts(base: Post[], baseSources: Map<number, string>, incoming: SourcedPosts[]): MergeResult {
+  const posts = [...base];
+  const sources = new Map(baseSources);
+  const position = new Map<number, number>();
+  base.forEach((post, i) => {
+    if (post.thread_id != null) position.set(post.thread_id, i);
+  });
+
+  const added = new Set<number>();
+  const updated = new Set<number>();
+  const seen = new Set<number>();
+
+  for (const file of incoming) {
+    for (const post of file.posts) {
+      const id = post.thread_id;
+      if (id == null) continue;
+      seen.add(id);
+      const i = position.get(id);
+      if (i === undefined) {
+        position.set(id, posts.length);
+        posts.push(post);
+        sources.set(id, file.source);
+        added.add(id);
+      } else if (isNewer(post, posts[i])) {
+        posts[i] = post;
+        sources.set(id, file.source);
+        if (!added.has(id)) updated.add(id);
+      }
+    }
+  }
+
+  return {
+    posts,
+    sources,
+    summary: {
+      files: incoming.map((f) => f.source),
+      added: added.size,
+      updated: updated.size,
+      unchanged: seen.size - added.size - updated.size,
+    },
+  };
+}
@@ -0,0 +1,79 @@
+// Minimal reader for Jupyter .ipynb files (nbformat 4), enough to show cells and their outputs.
+
+export type NotebookOutput =
+  | { type: "text"; text: string; error?: boolean }
+  | { type: "image"; src: string };
+
+export type NotebookCell = {
+  type: "markdown" | "code" | "raw";
+  source: string;
+  executionCount: number | null;
+  outputs: NotebookOutput[];
+};
+
+export type Notebook = { language: string; cells: NotebookCell[] };
+
+type RawOutput = {
+  output_type?: string;
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+};
+
+type RawCell = {
+  cell_type?: string;
+  source?: string | string[];
+  execution_count?: number | null;
+  outputs?: RawOutput[];
+};
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif"];
+
+function joinSource(value: string | string[] | undefined): string {
+  return Array.isArray(value) ? value.join("") : (value ?? "");
+}
+
+function stripAnsi(text: string) {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+function readOutput(out: RawOutput): NotebookOutput | null {
+  switch (out.output_type) {
+    case "stream":
+      return { type: "text", text: joinSource(out.text) };
+    case "error":
+      return { type: "text", text: stripAnsi((out.traceback ?? [`${out.ename}: ${out.evalue}`]).join("\n")), error: true };
+    case "execute_result":
+    case "display_data": {
+      const data = out.data ?? {};
+      const image = IMAGE_TYPES.find((mime) => data[mime]);
+      if (image) return { type: "image", src: `data:${image};base64,${joinSource(data[image]).replace(/\s/g, "")}` };
+      if (data["text/plain"]) return { type: "text", text: joinSource(data["text/plain"]) };
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Parses notebook JSON. Throws if the text is not a notebook. */
+export function parseNotebook(text: string): Notebook {
+  const data = JSON.parse(text) as {
+    cells?: RawCell[];
+    metadata?: { language_info?: { name?: string }; kernelspec?: { language?: string } };
+  };
+  if (!Array.isArray(data?.cells)) throw new Error("Not a Jupyter notebook (no cells)");
+
+  const language = data.metadata?.language_info?.name ?? data.metadata?.kernelspec?.language ?? "python";
+  const cells = data.cells.map(
+    (cell): NotebookCell => ({
+      type: cell.cell_type === "markdown" || cell.cell_type === "raw" ? cell.cell_type : "code",
+      source: joinSource(cell.source),
+      executionCount: cell.execution_count ?? null,
+      outputs: (cell.outputs ?? []).map(readOutput).filter((o): o is NotebookOutput => o !== null),
+    })
+  );
+  return { language, cells };
+}
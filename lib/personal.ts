@@ -0,0 +1,114 @@
+import { createLocalStore } from "@/lib/localStore";
+import { Post } from "@/lib/posts";
+
+// Each reviewer's own stars, read marks and notes. They live in the browser,
+// keyed by thread_id, and never leave it except through an export.
+
+export type PersonalEntry = {
+  starred?: boolean;
+  // ISO time the post was first opened
+  readAt?: string;
+  note?: string;
+};
+
+// thread_id -> entry; entries with nothing set are dropped
+export type PersonalState = Record<string, PersonalEntry>;
+
+export type PersonalFilter = "starred" | "unread" | "notes";
+
+export const PERSONAL_FILTERS: Record<PersonalFilter, string> = {
+  starred: "★ Starred",
+  unread: "Unread",
+  notes: "📝 Has my notes",
+};
+
+export function isPersonalFilter(value: string): value is PersonalFilter {
+  return Object.prototype.hasOwnProperty.call(PERSONAL_FILTERS, value);
+}
+
+const EXPORT_VERSION = 1;
+
+function readEntry(value: unknown): PersonalEntry | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  const entry: PersonalEntry = {};
+  if (v.starred === true) entry.starred = true;
+  if (typeof v.readAt === "string" && v.readAt) entry.readAt = v.readAt;
+  if (typeof v.note === "string" && v.note.trim()) entry.note = v.note;
+  return Object.keys(entry).length > 0 ? entry : null;
+}
+
+/**
+ * Reads saved or exported state: either the export wrapper or a bare
+ * thread_id -> entry map. Entries that are not usable are skipped. Throws if
+ * `data` is not an object at all.
+ */
+export function readPersonalState(data: unknown): PersonalState {
+  if (!data || typeof data !== "object" || Array.isArray(data)) throw new Error("Expected a JSON object");
+  const wrapper = data as { posts?: unknown };
+  const map = (wrapper.posts && typeof wrapper.posts === "object" ? wrapper.posts : data) as Record<string, unknown>;
+
+  const state: PersonalState = {};
+  for (const [id, value] of Object.entries(map)) {
+    if (!/^\d+$/.test(id)) continue;
+    const entry = readEntry(value);
+    if (entry) state[id] = entry;
+  }
+  return state;
+}
+
+export const personalStore = createLocalStore<PersonalState>("posts-explorer:personal", {}, readPersonalState);
+
+export function personalEntry(state: PersonalState, post: Post): PersonalEntry | undefined {
+  return post.thread_id != null ? state[post.thread_id] : undefined;
+}
+
+/** Applies `patch` to one thread's entry. Fields set to undefined are cleared. */
+export function updatePersonalEntry(threadId: number, patch: Partial<PersonalEntry>) {
+  personalStore.set((prev) => {
+    const next = { ...prev };
+    const entry = readEntry({ ...prev[threadId], ...patch });
+    if (entry) next[threadId] = entry;
+    else delete next[threadId];
+    return next;
+  });
+}
+
+export function markRead(threadId: number) {
+  if (personalStore.get()[threadId]?.readAt) return;
+  updatePersonalEntry(threadId, { readAt: new Date().toISOString() });
+}
+
+export function personalStateToJSON(state: PersonalState): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exported_at: new Date().toISOString(), posts: state }, null, 2);
+}
+
+/**
+ * Merges imported state into `base`. A star or note in either copy is kept
+ * (imported notes win when both have one), and the earlier read time is kept.
+ */
+export function mergePersonalState(base: PersonalState, incoming: PersonalState): PersonalState {
+  const merged = { ...base };
+  for (const [id, entry] of Object.entries(incoming)) {
+    const prev = merged[id] ?? {};
+    const readAt = [prev.readAt, entry.readAt].filter(Boolean).sort()[0];
+    merged[id] = {
+      ...(prev.starred || entry.starred ? { starred: true } : {}),
+      ...(readAt ? { readAt } : {}),
+      ...(entry.note || prev.note ? { note: entry.note ?? prev.note } : {}),
+    };
+  }
+  return merged;
+}
+
+/** Every selected personal filter must hold. Posts without a thread_id count as unread and unmarked. */
+export function matchesPersonalFilters(post: Post, filters: Set<PersonalFilter>, state: PersonalState): boolean {
+  if (filters.size === 0) return true;
+  const entry = personalEntry(state, post);
+  for (const f of filters) {
+    if (f === "starred" && !entry?.starred) return false;
+    if (f === "unread" && entry?.readAt) return false;
+    if (f === "notes" && !entry?.note) return false;
+  }
+  return true;
+}
@@ -0,0 +1,132 @@
+export type PostComment = {
+  id: number;
+  user_id?: number;
+  thread_id?: number;
+  parent_id?: number | null;
+  type?: "comment" | "answer";
+  content?: string; // XML-ish content
+  document?: string;
+  vote_count?: number;
+  is_endorsed?: boolean;
+  is_anonymous?: boolean;
+  is_private?: boolean;
+  is_resolved?: boolean;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+  comments?: PostComment[];
+};
+
+export type ClusterMetadata = {
+  label_version?: string;
+  label_method?: string;
+  model_ids?: string[];
+  topic_category_ids?: string[];
+  post_type_category_ids?: string[];
+};
+
+export type TagKind = "models" | "topics" | "assignments";
+
+// Which labelling pass to read tags from: `cluster_metadata` (LLM) or `cluster_metadata_heuristic`
+export type LabelSource = "llm" | "heuristic";
+
+export const TAG_KINDS: TagKind[] = ["models", "topics", "assignments"];
+
+export const TAG_FIELDS = {
+  models: "model_ids",
+  topics: "topic_category_ids",
+  assignments: "post_type_category_ids",
+} as const satisfies Record<TagKind, keyof ClusterMetadata>;
+
+export type Post = {
+  thread_id?: number;
+  title?: string;
+  author_name?: string;
+  author_user_id?: number;
+  author_role?: string;
+  created_at?: string | number;
+  updated_at?: string | number;
+  ingested_at?: string;
+  document?: string;
+  raw?: {
+    document?: string;
+    content?: string; // XML-ish content
+    comments?: PostComment[];
+    answers?: PostComment[];
+    view_count?: number;
+    vote_count?: number;
+    star_count?: number;
+    reply_count?: number;
+  };
+  cluster_metadata?: ClusterMetadata;
+  cluster_metadata_heuristic?: ClusterMetadata;
+};
+
+export function postTags(post: Post, kind: TagKind, source: LabelSource = "llm"): string[] {
+  const metadata = source === "heuristic" ? post.cluster_metadata_heuristic : post.cluster_metadata;
+  return metadata?.[TAG_FIELDS[kind]] ?? [];
+}
+
+export function safeDate(input: string | number | null | undefined): Date | null {
+  if (!input) return null;
+  const d = new Date(input);
+  return Number.isFinite(d.getTime()) ? d : null;
+}
+
+export function normalizeTagLabel(tag: string) {
+  return (tag ?? "").replace(/_/g, " ");
+}
+
+/** user_id -> display name, for every post author in the dataset. */
+export function buildUserNames(posts: Post[]): Map<number, string> {
+  const names = new Map<number, string>();
+  for (const post of posts) {
+    if (post.author_user_id != null && post.author_name) names.set(post.author_user_id, post.author_name);
+  }
+  return names;
+}
+
+export type CommentNode = PostComment & { replies: CommentNode[] };
+
+/**
+ * Flattens a post's answers and comments (however deeply Ed nested them) and
+ * rebuilds the reply tree from `parent_id`. Answers come before comments at the
+ * top level; otherwise oldest first at every level.
+ */
+export function buildCommentTree(post: Post): CommentNode[] {
+  const flat: PostComment[] = [];
+  const collect = (list: PostComment[] | undefined, parentId: number | null) => {
+    for (const c of list ?? []) {
+      flat.push({ ...c, parent_id: c.parent_id ?? parentId });
+      collect(c.comments, c.id);
+    }
+  };
+  collect(post.raw?.answers, null);
+  collect(post.raw?.comments, null);
+
+  const byId = new Map<number, CommentNode>();
+  for (const c of flat) byId.set(c.id, { ...c, replies: [] });
+
+  const roots: CommentNode[] = [];
+  for (const node of byId.values()) {
+    const parent = node.parent_id != null ? byId.get(node.parent_id) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  }
+
+  const byDate = (a: CommentNode, b: CommentNode) =>
+    (safeDate(a.created_at)?.getTime() ?? 0) - (safeDate(b.created_at)?.getTime() ?? 0);
+  const sortTree = (nodes: CommentNode[]) => {
+    nodes.sort(byDate);
+    nodes.forEach((n) => sortTree(n.replies));
+  };
+  sortTree(roots);
+
+  return roots.sort((a, b) => Number(b.type === "answer") - Number(a.type === "answer"));
+}
+
+export function countComments(post: Post): number {
+  const count = (list: PostComment[] | undefined): number =>
+    (list ?? []).reduce((n, c) => n + 1 + count(c.comments), 0);
+  return count(post.raw?.answers) + count(post.raw?.comments);
+}
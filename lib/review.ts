@@ -0,0 +1,211 @@
+import { toCSV } from "@/lib/export";
+import { createLocalStore } from "@/lib/localStore";
+import { Post, safeDate } from "@/lib/posts";
+
+// Staff grading: a status, rubric scores and a private comment per post. Like
+// the personal state, it is kept in the browser keyed by thread_id and only
+// leaves it through the CSV export.
+
+export type ReviewStatus = "unreviewed" | "accepted" | "needs_revision" | "rejected";
+
+export const REVIEW_STATUSES: Record<ReviewStatus, string> = {
+  unreviewed: "Unreviewed",
+  accepted: "✅ Accepted",
+  needs_revision: "✏️ Needs revision",
+  rejected: "⛔ Rejected",
+};
+
+export function isReviewStatus(value: unknown): value is ReviewStatus {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(REVIEW_STATUSES, value);
+}
+
+export type RubricCriterion = {
+  id: string;
+  label: string;
+  // scores run from 0 to max in whole points
+  max: number;
+};
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { id: "insight", label: "Insight", max: 5 },
+  { id: "clarity", label: "Clarity", max: 5 },
+  { id: "evidence", label: "Evidence", max: 5 },
+];
+
+export type ReviewEntry = {
+  // unset means unreviewed
+  status?: Exclude<ReviewStatus, "unreviewed">;
+  // criterion id -> score; scores for criteria no longer in the rubric are kept but not counted
+  scores?: Record<string, number>;
+  comment?: string;
+  // ISO time of the last change
+  reviewedAt?: string;
+};
+
+export type ReviewState = {
+  rubric: RubricCriterion[];
+  // thread_id -> entry; entries with nothing set are dropped
+  posts: Record<string, ReviewEntry>;
+};
+
+function readCriterion(value: unknown): RubricCriterion | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.id !== "string" || !v.id || typeof v.label !== "string") return null;
+  const max = Math.floor(Number(v.max));
+  return max > 0 ? { id: v.id, label: v.label, max } : null;
+}
+
+function readEntry(value: unknown): ReviewEntry | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  const entry: ReviewEntry = {};
+  if (isReviewStatus(v.status) && v.status !== "unreviewed") entry.status = v.status;
+  if (v.scores && typeof v.scores === "object") {
+    const scores: Record<string, number> = {};
+    for (const [id, score] of Object.entries(v.scores as Record<string, unknown>)) {
+      if (typeof score === "number" && Number.isFinite(score) && score >= 0) scores[id] = score;
+    }
+    if (Object.keys(scores).length > 0) entry.scores = scores;
+  }
+  if (typeof v.comment === "string" && v.comment.trim()) entry.comment = v.comment;
+  if (Object.keys(entry).length === 0) return null;
+  if (typeof v.reviewedAt === "string" && v.reviewedAt) entry.reviewedAt = v.reviewedAt;
+  return entry;
+}
+
+/** Reads saved state. Unusable criteria and entries are skipped; a missing rubric falls back to the default. */
+export function readReviewState(data: unknown): ReviewState {
+  if (!data || typeof data !== "object" || Array.isArray(data)) throw new Error("Expected a JSON object");
+  const v = data as { rubric?: unknown; posts?: unknown };
+  const rubric = Array.isArray(v.rubric)
+    ? v.rubric.map(readCriterion).filter((c): c is RubricCriterion => c !== null)
+    : DEFAULT_RUBRIC;
+
+  const posts: Record<string, ReviewEntry> = {};
+  if (v.posts && typeof v.posts === "object") {
+    for (const [id, value] of Object.entries(v.posts as Record<string, unknown>)) {
+      if (!/^\d+$/.test(id)) continue;
+      const entry = readEntry(value);
+      if (entry) posts[id] = entry;
+    }
+  }
+  return { rubric, posts };
+}
+
+export const reviewStore = createLocalStore<ReviewState>(
+  "posts-explorer:review",
+  { rubric: DEFAULT_RUBRIC, posts: {} },
+  readReviewState
+);
+
+// Whether the grid and modal show the review controls; a per-browser preference
+export const reviewModeStore = createLocalStore<boolean>("posts-explorer:review-mode", false, (data) => data === true);
+
+export function reviewEntry(state: ReviewState, post: Post): ReviewEntry | undefined {
+  return post.thread_id != null ? state.posts[post.thread_id] : undefined;
+}
+
+export function reviewStatus(state: ReviewState, post: Post): ReviewStatus {
+  return reviewEntry(state, post)?.status ?? "unreviewed";
+}
+
+/** Applies `patch` to one thread's entry and stamps the change time. Fields set to undefined are cleared. */
+export function updateReviewEntry(threadId: number, patch: Partial<ReviewEntry>) {
+  reviewStore.set((prev) => {
+    const posts = { ...prev.posts };
+    const entry = readEntry({ ...prev.posts[threadId], ...patch, reviewedAt: new Date().toISOString() });
+    if (entry) posts[threadId] = entry;
+    else delete posts[threadId];
+    return { ...prev, posts };
+  });
+}
+
+/** Sets or clears (with undefined) one rubric score, clamped to the criterion's range. */
+export function setReviewScore(threadId: number, criterion: RubricCriterion, score: number | undefined) {
+  const scores = { ...reviewStore.get().posts[threadId]?.scores };
+  if (score === undefined || !Number.isFinite(score)) delete scores[criterion.id];
+  else scores[criterion.id] = Math.min(criterion.max, Math.max(0, Math.round(score)));
+  updateReviewEntry(threadId, { scores });
+}
+
+export function setRubric(rubric: RubricCriterion[]) {
+  reviewStore.set((prev) => ({ ...prev, rubric }));
+}
+
+export function newCriterionId() {
+  return `c${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function rubricMax(rubric: RubricCriterion[]) {
+  return rubric.reduce((n, c) => n + c.max, 0);
+}
+
+/** One criterion's score, capped at its current max in case the max was lowered after scoring. */
+export function reviewScore(entry: ReviewEntry | undefined, criterion: RubricCriterion): number | undefined {
+  const score = entry?.scores?.[criterion.id];
+  return score === undefined ? undefined : Math.min(score, criterion.max);
+}
+
+/** Sum of the entry's scores on the current rubric, or null if none of them is scored. */
+export function reviewTotal(entry: ReviewEntry | undefined, rubric: RubricCriterion[]): number | null {
+  const scored = rubric.filter((c) => entry?.scores?.[c.id] !== undefined);
+  if (scored.length === 0) return null;
+  return scored.reduce((n, c) => n + (reviewScore(entry, c) ?? 0), 0);
+}
+
+/** A post matches when its status is any of the selected ones. */
+export function matchesReviewFilters(post: Post, filters: Set<ReviewStatus>, state: ReviewState): boolean {
+  return filters.size === 0 || filters.has(reviewStatus(state, post));
+}
+
+/**
+ * One row per reviewed post, grouped by author. `author_total` repeats the
+ * sum of that author's post totals on each of their rows so it survives
+ * sorting and filtering in a spreadsheet.
+ */
+export function reviewToCSV(posts: Post[], state: ReviewState): string {
+  const reviewed = posts
+    .flatMap((post) => {
+      const entry = reviewEntry(state, post);
+      return entry ? [{ post, entry, total: reviewTotal(entry, state.rubric) }] : [];
+    })
+    .sort(
+      (a, b) =>
+        (a.post.author_user_id ?? -1) - (b.post.author_user_id ?? -1) ||
+        (a.post.thread_id ?? 0) - (b.post.thread_id ?? 0)
+    );
+
+  const authorTotals = new Map<number | undefined, number>();
+  for (const { post, total } of reviewed) {
+    authorTotals.set(post.author_user_id, (authorTotals.get(post.author_user_id) ?? 0) + (total ?? 0));
+  }
+
+  const header = [
+    "author_user_id",
+    "author_name",
+    "thread_id",
+    "title",
+    "status",
+    ...state.rubric.map((c) => `${c.label} (/${c.max})`),
+    "total",
+    "max_total",
+    "author_total",
+    "comment",
+    "reviewed_at",
+  ];
+  const rows = reviewed.map(({ post, entry, total }) => [
+    post.author_user_id,
+    post.author_name,
+    post.thread_id,
+    post.title,
+    entry.status ?? "unreviewed",
+    ...state.rubric.map((c) => reviewScore(entry, c)),
+    total,
+    rubricMax(state.rubric),
+    authorTotals.get(post.author_user_id),
+    entry.comment,
+    safeDate(entry.reviewedAt)?.toISOString() ?? "",
+  ]);
+  return toCSV(header, rows);
+}
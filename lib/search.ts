@@ -0,0 +1,202 @@
+import { EdNode, edTextContent, parseEdDocument, walkEdElements } from "@/lib/edDocument";
+import { Post, PostComment } from "@/lib/posts";
+
+// In-memory inverted index with BM25-style ranking over a few weighted fields.
+
+export type SearchField = "title" | "body" | "comments" | "files";
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 4, files: 2, body: 1, comments: 0.6 };
+const K1 = 1.2;
+const B = 0.75;
+// Score multiplier for a term that only matches a query token as a prefix.
+const PREFIX_PENALTY = 0.7;
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have i in is it its of on or so that the this to was were will with".split(" ")
+);
+
+export type SearchDoc = Record<SearchField, string>;
+
+export type SearchIndex = {
+  docs: SearchDoc[];
+  postings: Map<string, Map<number, number>>; // term -> doc -> weighted term frequency
+  terms: string[]; // sorted, for prefix lookup
+  lengths: number[];
+  avgLength: number;
+};
+
+export type SearchHit = { doc: number; score: number };
+
+export type SnippetSegment = { text: string; hit: boolean };
+
+function foldCase(text: string) {
+  return text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+export function tokenize(text: string): string[] {
+  return foldCase(text ?? "").match(/[a-z0-9]+/g) ?? [];
+}
+
+/** Query tokens, minus stopwords (unless the query is nothing but stopwords). */
+export function queryTokens(query: string): string[] {
+  const tokens = Array.from(new Set(tokenize(query)));
+  const meaningful = tokens.filter((t) => !STOPWORDS.has(t));
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+function commentsText(list: PostComment[] | undefined): string {
+  return (list ?? [])
+    .map((c) => {
+      const own = c.content ? edTextContent(parseEdDocument(c.content)) : (c.document ?? "");
+      return `${own}\n${commentsText(c.comments)}`;
+    })
+    .join("\n");
+}
+
+export function fileNames(nodes: EdNode[]): string[] {
+  const names: string[] = [];
+  walkEdElements(nodes, (el) => {
+    if (el.tag === "file" && el.attrs.filename) names.push(el.attrs.filename);
+  });
+  return names;
+}
+
+export function searchDocFor(post: Post): SearchDoc {
+  return {
+    title: post.title ?? "",
+    body: post.document ?? post.raw?.document ?? "",
+    comments: commentsText([...(post.raw?.answers ?? []), ...(post.raw?.comments ?? [])]).trim(),
+    files: fileNames(parseEdDocument(post.raw?.content ?? "")).join("\n"),
+  };
+}
+
+export function buildSearchIndex(posts: Post[]): SearchIndex {
+  const docs = posts.map(searchDocFor);
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+
+  docs.forEach((doc, id) => {
+    let length = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      const weight = FIELD_WEIGHTS[field];
+      const tokens = tokenize(doc[field]);
+      length += tokens.length * weight;
+      for (const token of tokens) {
+        let perDoc = postings.get(token);
+        if (!perDoc) postings.set(token, (perDoc = new Map()));
+        perDoc.set(id, (perDoc.get(id) ?? 0) + weight);
+      }
+    }
+    lengths.push(length);
+  });
+
+  const avgLength = lengths.length > 0 ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+  return { docs, postings, terms: Array.from(postings.keys()).sort(), lengths, avgLength };
+}
+
+function termsWithPrefix(index: SearchIndex, prefix: string): string[] {
+  let lo = 0;
+  let hi = index.terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index.terms[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const out: string[] = [];
+  for (let i = lo; i < index.terms.length && index.terms[i].startsWith(prefix); i++) out.push(index.terms[i]);
+  return out;
+}
+
+/**
+ * Ranked search. Every query token must match (exactly or as a prefix of an
+ * indexed term) for a document to be returned. Hits are sorted best first.
+ */
+export function search(index: SearchIndex, query: string): SearchHit[] {
+  const tokens = queryTokens(query);
+  if (tokens.length === 0) return [];
+
+  const n = index.docs.length;
+  let scores: Map<number, number> | null = null;
+
+  for (const token of tokens) {
+    const tokenScores = new Map<number, number>();
+
+    for (const term of termsWithPrefix(index, token)) {
+      const perDoc = index.postings.get(term)!;
+      const idf = Math.log(1 + (n - perDoc.size + 0.5) / (perDoc.size + 0.5));
+      const factor = term === token ? 1 : PREFIX_PENALTY;
+
+      for (const [doc, tf] of perDoc) {
+        const norm = K1 * (1 - B + (B * index.lengths[doc]) / (index.avgLength || 1));
+        const s = factor * idf * ((tf * (K1 + 1)) / (tf + norm));
+        // Best-matching expansion of the token counts, not the sum of all of them.
+        if (s > (tokenScores.get(doc) ?? 0)) tokenScores.set(doc, s);
+      }
+    }
+
+    if (scores === null) {
+      scores = tokenScores;
+    } else {
+      const prev: Map<number, number> = scores;
+      scores = new Map();
+      for (const [doc, s] of tokenScores) {
+        const p = prev.get(doc);
+        if (p !== undefined) scores.set(doc, p + s);
+      }
+    }
+    if (scores.size === 0) break;
+  }
+
+  return Array.from(scores ?? [], ([doc, score]) => ({ doc, score })).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Cuts a window of roughly `maxLength` characters around the first word that
+ * matches a query token, split into highlighted and plain segments.
+ * Returns null when nothing in `text` matches.
+ */
+export function highlightSnippet(text: string, query: string, maxLength = 200): SnippetSegment[] | null {
+  const tokens = queryTokens(query);
+  if (!text || tokens.length === 0) return null;
+
+  const hits: [number, number][] = [];
+  for (const m of text.matchAll(/[A-Za-z0-9\u00C0-\u024F]+/g)) {
+    const word = foldCase(m[0]);
+    if (tokens.some((t) => word.startsWith(t))) hits.push([m.index!, m.index! + m[0].length]);
+  }
+  if (hits.length === 0) return null;
+
+  let start = Math.max(0, hits[0][0] - Math.floor(maxLength / 4));
+  if (start > 0) {
+    const space = text.lastIndexOf(" ", start);
+    start = space > 0 && hits[0][0] - space < maxLength / 2 ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + maxLength);
+
+  const segments: SnippetSegment[] = [];
+  if (start > 0) segments.push({ text: "…", hit: false });
+  let cursor = start;
+  for (const [hs, he] of hits) {
+    if (he <= cursor || hs >= end) continue;
+    if (hs > cursor) segments.push({ text: text.slice(cursor, hs), hit: false });
+    segments.push({ text: text.slice(Math.max(hs, cursor), Math.min(he, end)), hit: true });
+    cursor = Math.min(he, end);
+  }
+  if (cursor < end) segments.push({ text: text.slice(cursor, end), hit: false });
+  if (end < text.length) segments.push({ text: "…", hit: false });
+
+  return segments;
+}
+
+/** Snippet from the first of body, comments or attachment names that mentions the query. */
+export function postSnippet(doc: SearchDoc, query: string, maxLength = 200): SnippetSegment[] | null {
+  for (const field of ["body", "comments", "files"] as const) {
+    const segments = highlightSnippet(doc[field].replace(/\s+/g, " "), query, maxLength);
+    if (segments) {
+      if (field === "comments") segments.unshift({ text: "💬 ", hit: false });
+      if (field === "files") segments.unshift({ text: "📎 ", hit: false });
+      return segments;
+    }
+  }
+  return null;
+}
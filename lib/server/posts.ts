@@ -0,0 +1,38 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { parseDataset } from "@/lib/ingest";
+import { Post } from "@/lib/posts";
+import { SearchIndex, buildSearchIndex } from "@/lib/search";
+
+// Server-side access to the bundled dataset (public/posts.jsonl), read and indexed once per process.
+
+export type Dataset = {
+  posts: Post[];
+  byThreadId: Map<number, Post>;
+  index: SearchIndex;
+};
+
+let datasetPromise: Promise<Dataset> | null = null;
+
+async function readDataset(): Promise<Dataset> {
+  const text = await readFile(path.join(process.cwd(), "public", "posts.jsonl"), "utf8");
+  // Malformed records are skipped, the same way the explorer loads them
+  const { posts } = parseDataset(text, "posts.jsonl");
+  const byThreadId = new Map<number, Post>();
+  for (const post of posts) if (post.thread_id != null) byThreadId.set(post.thread_id, post);
+  return { posts, byThreadId, index: buildSearchIndex(posts) };
+}
+
+export function loadDataset(): Promise<Dataset> {
+  if (!datasetPromise) {
+    datasetPromise = readDataset().catch((e) => {
+      datasetPromise = null; // allow a retry on the next request
+      throw e;
+    });
+  }
+  return datasetPromise;
+}
+
+export async function getPost(threadId: number): Promise<Post | null> {
+  return (await loadDataset()).byThreadId.get(threadId) ?? null;
+}
@@ -0,0 +1,138 @@
+import { LabelSource, Post, TAG_KINDS, TagKind, postTags } from "@/lib/posts";
+import { tokenize } from "@/lib/search";
+
+// "More like this": cosine similarity of TF-IDF vectors over title and post
+// text, blended with the overlap of the posts' tags.
+
+// Share of the score that comes from text; the rest comes from tags
+const TEXT_WEIGHT = 0.7;
+// Matches below this score are not worth showing
+const MIN_SCORE = 0.05;
+const KEY_TERMS_SHOWN = 3;
+
+// Common words that say nothing about what a post is about
+const STOPWORDS = new Set(
+  (
+    "about after all also an and any are as at be been but by can could did do does each for from had has have he her " +
+    "him his how if in into is it its just like me more most my not of on one only or other our out over same she so " +
+    "some such than that the their them then there these they this those through to too up us use used using very was " +
+    "we were what when where which while who will with would you your"
+  ).split(" ")
+);
+
+type Vector = Map<string, number>;
+
+export type SimilarityIndex = {
+  posts: Post[];
+  vectors: Vector[]; // unit length
+  tags: Set<string>[]; // "kind:tag"
+};
+
+export type TagRef = { kind: TagKind; tag: string };
+
+export type RelatedPost = {
+  post: Post;
+  score: number;
+  sharedTags: TagRef[];
+  sharedTerms: string[];
+};
+
+function terms(post: Post): string[] {
+  const text = `${post.title ?? ""}\n${post.document ?? post.raw?.document ?? ""}`;
+  return tokenize(text).filter((t) => t.length > 2 && !STOPWORDS.has(t) && !/^\d+$/.test(t));
+}
+
+export function buildSimilarityIndex(posts: Post[], labelSource: LabelSource = "llm"): SimilarityIndex {
+  const counts = posts.map((post) => {
+    const tf = new Map<string, number>();
+    for (const t of terms(post)) tf.set(t, (tf.get(t) ?? 0) + 1);
+    return tf;
+  });
+
+  const df = new Map<string, number>();
+  for (const tf of counts) for (const t of tf.keys()) df.set(t, (df.get(t) ?? 0) + 1);
+
+  const vectors = counts.map((tf) => {
+    const v: Vector = new Map();
+    let norm = 0;
+    for (const [t, n] of tf) {
+      // Terms in every post (or only this one) can't tell posts apart
+      const d = df.get(t) ?? 0;
+      if (d < 2 || d === posts.length) continue;
+      const w = (1 + Math.log(n)) * Math.log(posts.length / d);
+      v.set(t, w);
+      norm += w * w;
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) for (const [t, w] of v) v.set(t, w / norm);
+    return v;
+  });
+
+  // "unknown" marks a missing label rather than something posts have in common
+  const tags = posts.map(
+    (post) =>
+      new Set(
+        TAG_KINDS.flatMap((kind) =>
+          postTags(post, kind, labelSource)
+            .filter((tag) => tag !== "unknown")
+            .map((tag) => `${kind}:${tag}`)
+        )
+      )
+  );
+
+  return { posts, vectors, tags };
+}
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * The posts most like `post`, best first, each with the tags and the most
+ * telling terms the two share. Other posts by the same author are left out.
+ */
+export function relatedPosts(index: SimilarityIndex, post: Post, limit = 5): RelatedPost[] {
+  const i = index.posts.indexOf(post);
+  if (i < 0) return [];
+  const vector = index.vectors[i];
+  const tags = index.tags[i];
+
+  const matches: { j: number; score: number; products: [string, number][] }[] = [];
+  index.posts.forEach((other, j) => {
+    if (j === i) return;
+    if (post.author_user_id != null && other.author_user_id === post.author_user_id) return;
+
+    const products: [string, number][] = [];
+    let cosine = 0;
+    const otherVector = index.vectors[j];
+    for (const [t, w] of vector) {
+      const w2 = otherVector.get(t);
+      if (w2 === undefined) continue;
+      cosine += w * w2;
+      products.push([t, w * w2]);
+    }
+    const score = TEXT_WEIGHT * cosine + (1 - TEXT_WEIGHT) * jaccard(tags, index.tags[j]);
+    if (score >= MIN_SCORE) matches.push({ j, score, products });
+  });
+
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ j, score, products }) => ({
+      post: index.posts[j],
+      score,
+      sharedTags: Array.from(tags)
+        .filter((t) => index.tags[j].has(t))
+        .map((t) => {
+          const sep = t.indexOf(":");
+          return { kind: t.slice(0, sep) as TagKind, tag: t.slice(sep + 1) };
+        }),
+      sharedTerms: products
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, KEY_TERMS_SHOWN)
+        .map(([t]) => t),
+    }));
+}
@@ -0,0 +1,6 @@
+export const SITE_TITLE = "EECS 182 Blue Team";
+export const SITE_DESCRIPTION = "Special participation Ed posts collection";
+
+export function pageTitle(title?: string) {
+  return title ? `${title} | ${SITE_TITLE}` : SITE_TITLE;
+}
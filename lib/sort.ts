@@ -0,0 +1,50 @@
+import { Post, safeDate } from "@/lib/posts";
+
+export type SortKey = "relevance" | "created" | "updated" | "views" | "votes" | "replies" | "stars";
+export type SortDir = "desc" | "asc";
+
+export const DEFAULT_SORT: SortKey = "relevance";
+export const DEFAULT_SORT_DIR: SortDir = "desc";
+
+type SortOption = {
+  label: string;
+  // Direction labels, descending first
+  dirLabels: [string, string];
+  value?: (post: Post) => number;
+};
+
+const dateValue = (input: string | number | undefined) => safeDate(input)?.getTime() ?? 0;
+
+export const SORT_OPTIONS: Record<SortKey, SortOption> = {
+  relevance: { label: "Relevance", dirLabels: ["Best match first", "Best match last"] },
+  created: { label: "Date posted", dirLabels: ["Newest first", "Oldest first"], value: (p) => dateValue(p.created_at) },
+  updated: {
+    label: "Recently updated",
+    dirLabels: ["Latest activity first", "Latest activity last"],
+    value: (p) => dateValue(p.updated_at ?? p.created_at),
+  },
+  views: { label: "Most viewed", dirLabels: ["Most first", "Fewest first"], value: (p) => p.raw?.view_count ?? 0 },
+  votes: { label: "Most voted", dirLabels: ["Most first", "Fewest first"], value: (p) => p.raw?.vote_count ?? 0 },
+  replies: { label: "Most discussed", dirLabels: ["Most first", "Fewest first"], value: (p) => p.raw?.reply_count ?? 0 },
+  stars: { label: "Most starred", dirLabels: ["Most first", "Fewest first"], value: (p) => p.raw?.star_count ?? 0 },
+};
+
+export function isSortKey(value: string | null): value is SortKey {
+  return value !== null && Object.prototype.hasOwnProperty.call(SORT_OPTIONS, value);
+}
+
+/**
+ * Returns a sorted copy. "relevance" keeps the incoming order, which is the
+ * search ranking when there is a query and file order otherwise. Ties keep
+ * their incoming order in both directions.
+ */
+export function sortPosts(posts: Post[], key: SortKey, dir: SortDir): Post[] {
+  const value = SORT_OPTIONS[key].value;
+  // Relevance has no key to compare, so ascending is the ranking read backwards
+  if (!value) return dir === "asc" ? [...posts].reverse() : [...posts];
+  const sign = dir === "asc" ? -1 : 1;
+  return posts
+    .map((post, i) => ({ post, i, v: value(post) }))
+    .sort((a, b) => sign * (b.v - a.v) || a.i - b.i)
+    .map((e) => e.post);
+}
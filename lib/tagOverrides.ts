@@ -0,0 +1,111 @@
+import { createLocalStore } from "@/lib/localStore";
+import { ClusterMetadata, Post, TAG_FIELDS, TAG_KINDS, TagKind } from "@/lib/posts";
+
+// Hand corrections to the LLM labels (`cluster_metadata`). They are kept in the
+// browser keyed by thread_id and laid over every load, so loading the same
+// dataset again brings them back. The heuristic labels are never touched.
+
+export const MANUAL_LABEL_METHOD = "manual";
+
+// The corrected tag list for each kind that was edited; kinds left out keep the file's tags
+export type TagOverride = Partial<Record<TagKind, string[]>>;
+
+// thread_id -> override; overrides with no kinds are dropped
+export type TagOverrides = Record<string, TagOverride>;
+
+function readOverride(value: unknown): TagOverride | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  const override: TagOverride = {};
+  for (const kind of TAG_KINDS) {
+    const tags = v[kind];
+    if (Array.isArray(tags)) override[kind] = tags.filter((t): t is string => typeof t === "string" && t !== "");
+  }
+  return Object.keys(override).length > 0 ? override : null;
+}
+
+/** Reads saved overrides, skipping unusable entries. Throws if `data` is not an object at all. */
+export function readTagOverrides(data: unknown): TagOverrides {
+  if (!data || typeof data !== "object" || Array.isArray(data)) throw new Error("Expected a JSON object");
+  const overrides: TagOverrides = {};
+  for (const [id, value] of Object.entries(data as Record<string, unknown>)) {
+    if (!/^\d+$/.test(id)) continue;
+    const override = readOverride(value);
+    if (override) overrides[id] = override;
+  }
+  return overrides;
+}
+
+export const tagOverrideStore = createLocalStore<TagOverrides>("posts-explorer:tag-overrides", {}, readTagOverrides);
+
+/** Lower-cased with whitespace turned into underscores, matching the ids the labellers emit. */
+export function normalizeTagInput(text: string) {
+  return text.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+function sameTags(a: string[], b: string[]) {
+  return a.length === b.length && a.every((t) => b.includes(t));
+}
+
+/**
+ * Records `tags` as the corrected list for one kind of one thread. Setting it
+ * back to the file's `original` tags removes the override for that kind.
+ */
+export function setTagOverride(threadId: number, kind: TagKind, tags: string[], original: string[]) {
+  tagOverrideStore.set((prev) => {
+    const next = { ...prev };
+    const override: TagOverride = { ...prev[threadId] };
+    if (sameTags(tags, original)) delete override[kind];
+    else override[kind] = Array.from(new Set(tags));
+    if (Object.keys(override).length > 0) next[threadId] = override;
+    else delete next[threadId];
+    return next;
+  });
+}
+
+export function clearTagOverride(threadId: number) {
+  tagOverrideStore.set((prev) => {
+    const next = { ...prev };
+    delete next[threadId];
+    return next;
+  });
+}
+
+function manualMetadata(base: ClusterMetadata | undefined, override: TagOverride): ClusterMetadata {
+  const metadata: ClusterMetadata = { ...base, label_method: MANUAL_LABEL_METHOD };
+  for (const kind of TAG_KINDS) {
+    const tags = override[kind];
+    if (tags) metadata[TAG_FIELDS[kind]] = tags;
+  }
+  return metadata;
+}
+
+/**
+ * `posts` with each override laid over its `cluster_metadata`, which is then
+ * marked as manually labelled. Posts without an override are returned as is.
+ */
+export function applyTagOverrides(posts: Post[], overrides: TagOverrides): Post[] {
+  if (Object.keys(overrides).length === 0) return posts;
+  return posts.map((post) => {
+    const override = post.thread_id != null ? overrides[post.thread_id] : undefined;
+    return override ? { ...post, cluster_metadata: manualMetadata(post.cluster_metadata, override) } : post;
+  });
+}
+
+/**
+ * One `{thread_id, cluster_metadata}` line per override. The metadata is the
+ * post's full label set with the corrections applied; for threads that are not
+ * in `posts` only the corrected kinds are known.
+ */
+export function tagOverridesToJSONL(posts: Post[], overrides: TagOverrides): string {
+  const byId = new Map(posts.filter((p) => p.thread_id != null).map((p) => [String(p.thread_id), p]));
+  const lines = Object.keys(overrides)
+    .sort((a, b) => Number(a) - Number(b))
+    .map((id) =>
+      JSON.stringify({
+        thread_id: Number(id),
+        cluster_metadata: manualMetadata(byId.get(id)?.cluster_metadata, overrides[id]),
+      })
+    );
+  return lines.join("\n") + (lines.length > 0 ? "\n" : "");
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { LocalStore } from "@/lib/localStore";
+
+/** The current value of `store`; the component re-renders whenever it changes. */
+export function useLocalStore<T>(store: LocalStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get, () => store.empty);
+}